@@ -30,13 +30,87 @@ export const config = {
       m: parseInt(process.env.HNSW_M || '16'),
       efConstruction: parseInt(process.env.HNSW_EF_CONSTRUCTION || '200'),
       efSearch: parseInt(process.env.HNSW_EF_SEARCH || '50'),
+      initialCapacity: parseInt(process.env.HNSW_INITIAL_CAPACITY || '10000'),
+    },
+    filteredSearch: {
+      bruteForceThreshold: parseInt(process.env.FILTER_BRUTE_FORCE_THRESHOLD || '2000'),
+      maxEf: parseInt(process.env.FILTER_MAX_EF || '2048'),
+    },
+    quantization: {
+      trainingSize: parseInt(process.env.QUANTIZATION_TRAINING_SIZE || '1000'),
+      rerankMultiplier: parseFloat(process.env.QUANTIZATION_RERANK_MULTIPLIER || '4'),
     },
   },
 
   // Storage Configuration
   storage: {
     maxFileSize: process.env.MAX_FILE_SIZE || '50MB',
+    // Files accepted in one upload request, and the limits for unpacking zip and tar archives
+    maxFiles: parseInt(process.env.UPLOAD_MAX_FILES || '20'),
+    maxArchiveEntries: parseInt(process.env.UPLOAD_MAX_ARCHIVE_ENTRIES || '1000'),
+    maxArchiveBytes: parseInt(process.env.UPLOAD_MAX_ARCHIVE_BYTES || String(200 * 1024 * 1024)),
     uploadPath: process.env.UPLOAD_PATH || './uploads',
+    // Where uploads go: '0g' (0G Storage network), 's3' (S3-compatible bucket), 'local' (content-addressed files) or 'memory'
+    backend: process.env.STORAGE_BACKEND || '0g',
+    localPath: process.env.LOCAL_STORAGE_PATH || './storage',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || 'https://s3.us-east-1.amazonaws.com',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+      prefix: process.env.S3_PREFIX || 'vectorzero/',
+      // S3 requires every part but the last to be at least 5MB
+      partSize: parseInt(process.env.S3_PART_SIZE || String(8 * 1024 * 1024)),
+    },
+    // Payloads above segmentSize go to 0G Storage as separately uploaded segments plus a manifest
+    chunkedUpload: {
+      segmentSize: parseInt(process.env.ZG_SEGMENT_SIZE || String(64 * 1024 * 1024)),
+      maxRetries: parseInt(process.env.ZG_UPLOAD_RETRIES || '3'),
+      retryDelayMs: parseInt(process.env.ZG_UPLOAD_RETRY_DELAY_MS || '1000'),
+      // Progress of uploads that were never resumed is discarded after this long
+      stateMaxAgeMs: parseInt(process.env.ZG_UPLOAD_STATE_MAX_AGE_MS || String(7 * 24 * 60 * 60 * 1000)),
+    },
+  },
+
+  // Background document ingestion: uploads are queued and processed by a bounded pool of workers
+  ingestion: {
+    concurrency: parseInt(process.env.INGESTION_CONCURRENCY || '2'),
+    maxQueuedJobs: parseInt(process.env.INGESTION_MAX_QUEUED_JOBS || '100'),
+    // How long finished jobs stay queryable
+    jobRetentionMs: parseInt(process.env.INGESTION_JOB_RETENTION_MS || '3600000'),
+  },
+
+  // Local Persistence Configuration (write-ahead log + periodic snapshots)
+  persistence: {
+    enabled: process.env.PERSISTENCE_ENABLED !== 'false',
+    dataDir: process.env.DATA_DIR || './data',
+    snapshotIntervalMs: parseInt(process.env.SNAPSHOT_INTERVAL_MS || '300000'),
+    snapshotEveryOps: parseInt(process.env.SNAPSHOT_EVERY_OPS || '10000'),
+    // Flush each write-ahead log entry to disk before acknowledging it; off trades the last writes before a power loss for throughput
+    fsync: process.env.WAL_FSYNC !== 'false',
+  },
+
+  // Rebuilding collections from their on-chain storage roots: 'startup', 'lazy' (on first access) or 'off'
+  rehydration: {
+    mode: (process.env.REHYDRATION_MODE || 'startup') as 'startup' | 'lazy' | 'off',
+  },
+
+  // Incremental exports: delta segments chained to a base snapshot in 0G Storage
+  deltaSnapshots: {
+    // How often changed collections push a delta segment; 0 leaves exports to the API
+    intervalMs: parseInt(process.env.DELTA_SNAPSHOT_INTERVAL_MS || '0'),
+    // Compact into a fresh base after this many segments...
+    compactAfterDeltas: parseInt(process.env.DELTA_COMPACT_AFTER || '10'),
+    // ...or when a delta would touch more than this fraction of the collection
+    compactChangeRatio: parseFloat(process.env.DELTA_COMPACT_RATIO || '0.5'),
+  },
+
+  // Client-side AES-GCM envelope encryption of everything uploaded to 0G Storage
+  encryption: {
+    // Key-encryption keys are derived from this secret; leaving it unset uploads plaintext
+    masterKey: process.env.ENCRYPTION_MASTER_KEY || '',
   },
 
   // AI/ML Configuration
@@ -0,0 +1,345 @@
+import * as fs from 'fs-extra';
+import { createHash } from 'crypto';
+import type { Collection, StoredDocument } from './VectorEngine';
+import type { LabelAllocatorState } from './LabelAllocator';
+
+/**
+ * Portable single-file snapshot of one collection, used for 0G Storage exports.
+ *
+ * Layout:
+ *
+ *   MAGIC | index section | vectors section | documents section | header JSON | header length (uint32 LE)
+ *
+ * - index: the HNSW graph as written by hnswlib's writeIndex
+ * - vectors: float32 little-endian, one row per document in documents order
+ * - documents: newline-delimited JSON of { id, metadata, timestamp }
+ *
+ * The header sits at the end so sections can be streamed to disk before their sizes and
+ * checksums are known. Every section carries a sha256 that is checked on read.
+ *
+ * Delta segments share the layout under their own MAGIC, without the index section: the
+ * vectors and documents sections hold the upserted documents and the header lists deletions.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+const MAGIC = Buffer.from('VECT0RCS');
+const DELTA_MAGIC = Buffer.from('VECT0RDS');
+const HEADER_LENGTH_BYTES = 4;
+// Documents are written in batches to bound the size of each write
+const WRITE_BATCH_SIZE = 1024;
+
+export interface SnapshotSection {
+  name: string;
+  offset: number;
+  length: number;
+  sha256: string;
+}
+
+export interface CollectionSnapshotHeader {
+  version: number;
+  exportedAt: number;
+  collection: Collection;
+  labels: LabelAllocatorState;
+  vectorCount: number;
+  sections: SnapshotSection[];
+}
+
+export interface CollectionSnapshotContents {
+  header: CollectionSnapshotHeader;
+  index: Buffer;
+  documents: StoredDocument[];
+}
+
+/**
+ * Header of a delta segment. Segments form a chain back to a full snapshot: each one names
+ * the root and checksum of the segment (or base snapshot) it applies on top of.
+ */
+export interface DeltaSegmentHeader {
+  version: number;
+  exportedAt: number;
+  collectionId: string;
+  dimension: number;
+  baseRoot: string;
+  previousRoot: string;
+  previousChecksum: string;
+  // Position in the chain, starting at 1 for the first segment after the base
+  sequence: number;
+  // Changes made at or after this time are left for the next segment
+  capturedAt: number;
+  upsertCount: number;
+  // Ids removed since the previous segment; they are applied before the upserts
+  deletes: string[];
+  sections: SnapshotSection[];
+}
+
+export interface DeltaSegmentContents {
+  header: DeltaSegmentHeader;
+  upserts: StoredDocument[];
+}
+
+export interface SnapshotDocument {
+  id: string;
+  vector: ArrayLike<number>;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+export interface SnapshotFileInfo {
+  size: number;
+  // sha256 of the whole file as 0x-prefixed hex, suitable for a bytes32 metadata hash
+  checksum: string;
+}
+
+/**
+ * Write a collection snapshot to disk section by section
+ */
+export function writeCollectionSnapshot(
+  filePath: string,
+  collection: Collection,
+  labels: LabelAllocatorState,
+  indexPath: string,
+  documentCount: number,
+  readDocuments: () => Iterable<SnapshotDocument>
+): SnapshotFileInfo {
+  return writeContainer(
+    filePath,
+    MAGIC,
+    writeSection => [
+      writeSection('index', readFileChunks(indexPath)),
+      ...writeDocumentSections(writeSection, collection.dimension, readDocuments),
+    ],
+    (sections): CollectionSnapshotHeader => ({
+      version: SNAPSHOT_FORMAT_VERSION,
+      exportedAt: Date.now(),
+      collection,
+      labels,
+      vectorCount: documentCount,
+      sections,
+    })
+  );
+}
+
+/**
+ * Parse a collection snapshot, verifying its structure and section checksums
+ */
+export function readCollectionSnapshot(data: Buffer): CollectionSnapshotContents {
+  const { header, section } = readContainer<CollectionSnapshotHeader>(data, MAGIC, 'collection snapshot');
+  const documents = readDocumentSections(section, header.collection.dimension, header.vectorCount, 'Collection snapshot');
+
+  return { header, index: section('index'), documents };
+}
+
+/**
+ * Write a delta segment holding the documents upserted and the ids deleted since the previous segment
+ */
+export function writeDeltaSegment(
+  filePath: string,
+  fields: Omit<DeltaSegmentHeader, 'version' | 'exportedAt' | 'upsertCount' | 'sections'>,
+  dimension: number,
+  upsertCount: number,
+  readUpserts: () => Iterable<SnapshotDocument>
+): SnapshotFileInfo {
+  return writeContainer(
+    filePath,
+    DELTA_MAGIC,
+    writeSection => writeDocumentSections(writeSection, dimension, readUpserts),
+    (sections): DeltaSegmentHeader => ({
+      version: SNAPSHOT_FORMAT_VERSION,
+      exportedAt: Date.now(),
+      ...fields,
+      upsertCount,
+      sections,
+    })
+  );
+}
+
+/**
+ * Parse a delta segment, verifying its structure and section checksums
+ */
+export function readDeltaSegment(data: Buffer): DeltaSegmentContents {
+  const { header, section } = readContainer<DeltaSegmentHeader>(data, DELTA_MAGIC, 'delta segment');
+  const upserts = readDocumentSections(section, header.dimension, header.upsertCount, 'Delta segment');
+
+  return { header, upserts };
+}
+
+/**
+ * Whether downloaded bytes hold a delta segment rather than a full collection snapshot
+ */
+export function isDeltaSegment(data: Buffer): boolean {
+  return data.length >= DELTA_MAGIC.length && data.subarray(0, DELTA_MAGIC.length).equals(DELTA_MAGIC);
+}
+
+type SectionWriter = (name: string, chunks: Iterable<Buffer>) => SnapshotSection;
+
+/**
+ * Write MAGIC, the sections and the trailing header, hashing the file as it goes
+ */
+function writeContainer(
+  filePath: string,
+  magic: Buffer,
+  writeSections: (writeSection: SectionWriter) => SnapshotSection[],
+  buildHeader: (sections: SnapshotSection[]) => object
+): SnapshotFileInfo {
+  const fd = fs.openSync(filePath, 'w');
+  const fileHash = createHash('sha256');
+  let position = 0;
+
+  const write = (chunk: Buffer) => {
+    fs.writeSync(fd, chunk);
+    fileHash.update(chunk);
+    position += chunk.length;
+  };
+
+  const writeSection: SectionWriter = (name, chunks) => {
+    const sectionHash = createHash('sha256');
+    const offset = position;
+    for (const chunk of chunks) {
+      sectionHash.update(chunk);
+      write(chunk);
+    }
+    return { name, offset, length: position - offset, sha256: sectionHash.digest('hex') };
+  };
+
+  try {
+    write(magic);
+    const sections = writeSections(writeSection);
+
+    const headerBytes = Buffer.from(JSON.stringify(buildHeader(sections)));
+    const headerLength = Buffer.alloc(HEADER_LENGTH_BYTES);
+    headerLength.writeUInt32LE(headerBytes.length);
+
+    write(headerBytes);
+    write(headerLength);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return { size: position, checksum: `0x${fileHash.digest('hex')}` };
+}
+
+function writeDocumentSections(
+  writeSection: SectionWriter,
+  dimension: number,
+  readDocuments: () => Iterable<SnapshotDocument>
+): SnapshotSection[] {
+  return [
+    writeSection('vectors', batches(readDocuments(), documents => {
+      const rows = new Float32Array(documents.length * dimension);
+      documents.forEach((document, i) => rows.set(document.vector, i * dimension));
+      return toLittleEndian(rows);
+    })),
+    writeSection('documents', batches(readDocuments(), documents =>
+      Buffer.from(documents.map(({ id, metadata, timestamp }) => JSON.stringify({ id, metadata, timestamp }) + '\n').join(''))
+    )),
+  ];
+}
+
+/**
+ * Locate and parse the trailing header, returning it with a checksum-verifying section reader
+ */
+function readContainer<H extends { version: number; sections: SnapshotSection[] }>(
+  data: Buffer,
+  magic: Buffer,
+  kind: string
+): { header: H; section: (name: string) => Buffer } {
+  if (data.length < magic.length + HEADER_LENGTH_BYTES || !data.subarray(0, magic.length).equals(magic)) {
+    throw new Error(`Not a ${kind}`);
+  }
+
+  const headerLength = data.readUInt32LE(data.length - HEADER_LENGTH_BYTES);
+  const headerStart = data.length - HEADER_LENGTH_BYTES - headerLength;
+  if (headerStart < magic.length) {
+    throw new Error(`${capitalize(kind)} header is truncated`);
+  }
+
+  const header = JSON.parse(data.subarray(headerStart, data.length - HEADER_LENGTH_BYTES).toString('utf-8')) as H;
+  if (header.version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported ${kind} version ${header.version}`);
+  }
+
+  const section = (name: string): Buffer => {
+    const entry = header.sections.find(s => s.name === name);
+    if (!entry || entry.offset + entry.length > headerStart) {
+      throw new Error(`${capitalize(kind)} is missing its ${name} section`);
+    }
+    const bytes = data.subarray(entry.offset, entry.offset + entry.length);
+    if (createHash('sha256').update(bytes).digest('hex') !== entry.sha256) {
+      throw new Error(`Checksum mismatch in ${kind} ${name} section`);
+    }
+    return bytes;
+  };
+
+  return { header, section };
+}
+
+function readDocumentSections(
+  section: (name: string) => Buffer,
+  dimension: number,
+  expectedCount: number,
+  kind: string
+): StoredDocument[] {
+  const rows = fromLittleEndian(section('vectors'));
+  const documentLines = section('documents').toString('utf-8').split('\n').filter(line => line.length > 0);
+
+  if (documentLines.length !== expectedCount || rows.length !== expectedCount * dimension) {
+    throw new Error(`${kind} declares ${expectedCount} vectors but contains ${documentLines.length}`);
+  }
+
+  return documentLines.map((line, i) => ({
+    ...(JSON.parse(line) as Omit<StoredDocument, 'vector'>),
+    vector: Array.from(rows.subarray(i * dimension, (i + 1) * dimension)),
+  }));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * sha256 of a whole snapshot as 0x-prefixed hex
+ */
+export function snapshotChecksum(data: Buffer): string {
+  return `0x${createHash('sha256').update(data).digest('hex')}`;
+}
+
+function* readFileChunks(filePath: string, chunkSize: number = 1 << 20): Iterable<Buffer> {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(chunkSize);
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, chunkSize, null)) > 0) {
+      yield Buffer.from(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function* batches<T>(items: Iterable<T>, encode: (batch: T[]) => Buffer): Iterable<Buffer> {
+  let batch: T[] = [];
+  for (const item of items) {
+    batch.push(item);
+    if (batch.length === WRITE_BATCH_SIZE) {
+      yield encode(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield encode(batch);
+  }
+}
+
+function toLittleEndian(values: Float32Array): Buffer {
+  const buffer = Buffer.alloc(values.length * Float32Array.BYTES_PER_ELEMENT);
+  values.forEach((value, i) => buffer.writeFloatLE(value, i * Float32Array.BYTES_PER_ELEMENT));
+  return buffer;
+}
+
+function fromLittleEndian(bytes: Buffer): Float32Array {
+  const values = new Float32Array(Math.floor(bytes.length / Float32Array.BYTES_PER_ELEMENT));
+  for (let i = 0; i < values.length; i++) {
+    values[i] = bytes.readFloatLE(i * Float32Array.BYTES_PER_ELEMENT);
+  }
+  return values;
+}
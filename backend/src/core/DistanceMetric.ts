@@ -0,0 +1,58 @@
+/**
+ * Distance metrics supported by HNSW collections.
+ * Names match hnswlib's space names so they can be passed to the index directly.
+ */
+export type DistanceMetric = 'cosine' | 'l2' | 'ip';
+
+export const DISTANCE_METRICS: DistanceMetric[] = ['cosine', 'l2', 'ip'];
+
+export const DEFAULT_METRIC: DistanceMetric = 'cosine';
+
+export function isDistanceMetric(value: unknown): value is DistanceMetric {
+  return typeof value === 'string' && (DISTANCE_METRICS as string[]).includes(value);
+}
+
+/**
+ * Convert an hnswlib distance into a similarity score where higher is better.
+ *
+ * - cosine: hnswlib returns 1 - cos(a, b), so the score is the cosine similarity in [-1, 1]
+ * - ip: hnswlib returns 1 - dot(a, b), so the score is the raw dot product
+ * - l2: hnswlib returns the squared euclidean distance, mapped to 1 / (1 + euclidean distance) in (0, 1]
+ */
+export function distanceToScore(metric: DistanceMetric, distance: number): number {
+  switch (metric) {
+    case 'cosine':
+    case 'ip':
+      return 1 - distance;
+    case 'l2':
+      return 1 / (1 + Math.sqrt(Math.max(distance, 0)));
+  }
+}
+
+/**
+ * Compute the distance between two vectors exactly as hnswlib does for the given metric,
+ * so brute-force results are comparable with index results
+ */
+export function computeDistance(metric: DistanceMetric, a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let squared = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+    const diff = a[i] - b[i];
+    squared += diff * diff;
+  }
+
+  switch (metric) {
+    case 'cosine':
+      return normA === 0 || normB === 0 ? 1 : 1 - dot / Math.sqrt(normA * normB);
+    case 'ip':
+      return 1 - dot;
+    case 'l2':
+      return squared;
+  }
+}
@@ -0,0 +1,97 @@
+export interface KeywordMatch {
+  docId: string;
+  score: number;
+}
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Split text into lowercase terms.
+ * Hyphenated or dotted tokens such as product codes ("SKU-4411", "v2.1") are kept
+ * whole in addition to their parts, so exact codes score higher than loose matches.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const compounds = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || [];
+
+  for (const compound of compounds) {
+    terms.push(compound);
+    const parts = compound.split(/[-_.]/);
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Inverted index over chunk text with BM25 scoring
+ */
+export class KeywordIndex {
+  private postings: Map<string, Map<string, number>> = new Map();
+  private docLengths: Map<string, number> = new Map();
+  private totalLength: number = 0;
+
+  add(docId: string, text: string): void {
+    const terms = tokenize(text);
+    for (const term of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(docId, (posting.get(docId) || 0) + 1);
+    }
+
+    this.docLengths.set(docId, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  remove(docId: string, text: string): void {
+    const length = this.docLengths.get(docId);
+    if (length === undefined) return;
+
+    for (const term of new Set(tokenize(text))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(docId);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+
+    this.docLengths.delete(docId);
+    this.totalLength -= length;
+  }
+
+  /**
+   * Score every document containing at least one query term, best first
+   */
+  search(query: string, k: number, accept?: (docId: string) => boolean): KeywordMatch[] {
+    const documentCount = this.docLengths.size;
+    if (documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [docId, frequency] of posting) {
+        if (accept && !accept(docId)) continue;
+
+        const length = this.docLengths.get(docId)!;
+        const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(docId, (scores.get(docId) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores, ([docId, score]) => ({ docId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -0,0 +1,76 @@
+export interface LabelAllocatorState {
+  nextLabel: number;
+  labels: [number, string][];
+}
+
+/**
+ * Assigns HNSW labels to document ids within a collection.
+ *
+ * hnswlib identifies points by numeric label, so each collection keeps a
+ * bidirectional label <-> docId map. Labels are never reused: a deleted
+ * document's label is marked deleted in the index, and new inserts always
+ * receive a fresh label, which the index may store in a deleted point's slot.
+ */
+export class LabelAllocator {
+  private nextLabel: number = 0;
+  private labelToId: Map<number, string> = new Map();
+  private idToLabel: Map<string, number> = new Map();
+
+  /**
+   * Allocate a fresh label for a document id
+   */
+  allocate(docId: string): number {
+    if (this.idToLabel.has(docId)) {
+      throw new Error(`Document ${docId} already has label ${this.idToLabel.get(docId)}`);
+    }
+
+    const label = this.nextLabel++;
+    this.labelToId.set(label, docId);
+    this.idToLabel.set(docId, label);
+    return label;
+  }
+
+  /**
+   * Release a document's label, returning it so the caller can mark it deleted in the index
+   */
+  release(docId: string): number | undefined {
+    const label = this.idToLabel.get(docId);
+    if (label === undefined) return undefined;
+
+    this.idToLabel.delete(docId);
+    this.labelToId.delete(label);
+    return label;
+  }
+
+  getId(label: number): string | undefined {
+    return this.labelToId.get(label);
+  }
+
+  getLabel(docId: string): number | undefined {
+    return this.idToLabel.get(docId);
+  }
+
+  /**
+   * Number of labels handed out so far, including released ones
+   */
+  getAllocatedCount(): number {
+    return this.nextLabel;
+  }
+
+  toJSON(): LabelAllocatorState {
+    return {
+      nextLabel: this.nextLabel,
+      labels: Array.from(this.labelToId.entries()),
+    };
+  }
+
+  static fromJSON(state: LabelAllocatorState): LabelAllocator {
+    const allocator = new LabelAllocator();
+    allocator.nextLabel = state.nextLabel;
+    for (const [label, docId] of state.labels) {
+      allocator.labelToId.set(label, docId);
+      allocator.idToLabel.set(docId, label);
+    }
+    return allocator;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Metadata filter language for collection search, modelled on MongoDB/Qdrant filters.
+ *
+ * A filter is an object whose keys are either logical operators or field paths:
+ *
+ *   { "$and": [ ... ] }, { "$or": [ ... ] }, { "$not": { ... } }
+ *   { "author.name": "Ada" }                        equality, dot paths reach nested fields
+ *   { "tags": "guide" }                             matches when the array contains the value
+ *   { "year": { "$gte": 2020, "$lt": 2024 } }       range operators on numbers or strings
+ *   { "lang": { "$in": ["en", "de"] } }             membership ($nin for exclusion)
+ *   { "summary": { "$exists": true } }              presence check
+ *   { "status": { "$not": { "$in": ["draft"] } } }  field-level negation
+ *
+ * Several keys in one object are combined with AND.
+ */
+export type MetadataFilter = Record<string, any>;
+
+export type MetadataPredicate = (metadata: Record<string, any>) => boolean;
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$not'];
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'];
+const FIELD_OPERATORS = ['$eq', '$ne', '$in', '$nin', '$exists', '$not', ...RANGE_OPERATORS];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+}
+
+function isComparable(value: unknown): value is number | string {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+}
+
+/**
+ * Validate a filter, returning a list of problems (empty when the filter is valid)
+ */
+export function validateFilter(filter: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isPlainObject(filter)) {
+    return ['Filter must be an object'];
+  }
+
+  validateClause(filter, '', errors);
+  return errors;
+}
+
+function validateClause(clause: Record<string, any>, location: string, errors: string[]): void {
+  for (const [key, value] of Object.entries(clause)) {
+    const path = location ? `${location}.${key}` : key;
+
+    if (key.startsWith('$')) {
+      if (!LOGICAL_OPERATORS.includes(key)) {
+        errors.push(`Unknown logical operator "${key}" at "${path}"`);
+      } else if (key === '$not') {
+        if (!isPlainObject(value)) {
+          errors.push(`"${path}" expects a filter object`);
+        } else {
+          validateClause(value, path, errors);
+        }
+      } else if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`"${path}" expects a non-empty array of filters`);
+      } else {
+        value.forEach((item, i) => {
+          if (!isPlainObject(item)) {
+            errors.push(`"${path}[${i}]" must be a filter object`);
+          } else {
+            validateClause(item, `${path}[${i}]`, errors);
+          }
+        });
+      }
+    } else if (key.length === 0 || key.split('.').some(segment => segment.length === 0)) {
+      errors.push(`Invalid field path "${key}"`);
+    } else if (isPlainObject(value) && Object.keys(value).some(k => k.startsWith('$'))) {
+      validateCondition(value, path, errors);
+    }
+  }
+}
+
+function validateCondition(condition: Record<string, any>, path: string, errors: string[]): void {
+  if (!isOperatorObject(condition)) {
+    errors.push(`Condition on "${path}" mixes operators and field names`);
+    return;
+  }
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (!FIELD_OPERATORS.includes(operator)) {
+      errors.push(`Unknown operator "${operator}" on "${path}"`);
+    } else if (RANGE_OPERATORS.includes(operator) && !isComparable(operand)) {
+      errors.push(`${operator} on "${path}" expects a number or string`);
+    } else if ((operator === '$in' || operator === '$nin') && !Array.isArray(operand)) {
+      errors.push(`${operator} on "${path}" expects an array`);
+    } else if (operator === '$exists' && typeof operand !== 'boolean') {
+      errors.push(`$exists on "${path}" expects a boolean`);
+    } else if (operator === '$not' && isPlainObject(operand) && Object.keys(operand).some(k => k.startsWith('$'))) {
+      validateCondition(operand, path, errors);
+    }
+  }
+}
+
+/**
+ * Compile a filter into a predicate over document metadata.
+ * Throws if the filter is invalid; call validateFilter first to report errors to clients.
+ */
+export function compileFilter(filter: MetadataFilter): MetadataPredicate {
+  const errors = validateFilter(filter);
+  if (errors.length > 0) {
+    throw new Error(`Invalid filter: ${errors.join('; ')}`);
+  }
+  return (metadata: Record<string, any>) => matchesClause(metadata, filter);
+}
+
+function matchesClause(metadata: Record<string, any>, clause: Record<string, any>): boolean {
+  return Object.entries(clause).every(([key, value]) => {
+    switch (key) {
+      case '$and':
+        return (value as MetadataFilter[]).every(item => matchesClause(metadata, item));
+      case '$or':
+        return (value as MetadataFilter[]).some(item => matchesClause(metadata, item));
+      case '$not':
+        return !matchesClause(metadata, value);
+      default:
+        return matchesCondition(resolvePath(metadata, key), value);
+    }
+  });
+}
+
+/**
+ * Resolve a dot path, fanning out through arrays of objects along the way
+ */
+function resolvePath(metadata: Record<string, any>, path: string): any[] {
+  let current: any[] = [metadata];
+
+  for (const segment of path.split('.')) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          if (isPlainObject(item) && segment in item) next.push(item[segment]);
+        }
+      } else if (isPlainObject(value) && segment in value) {
+        next.push(value[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+function matchesCondition(values: any[], condition: any): boolean {
+  // Array fields match when the array itself or any of its elements satisfies the condition
+  const candidates = values.flatMap(value => Array.isArray(value) ? [value, ...value] : [value]);
+
+  if (!isOperatorObject(condition)) {
+    return candidates.some(candidate => deepEqual(candidate, condition));
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return candidates.some(candidate => deepEqual(candidate, operand));
+      case '$ne':
+        return !candidates.some(candidate => deepEqual(candidate, operand));
+      case '$in':
+        return candidates.some(candidate => (operand as any[]).some(option => deepEqual(candidate, option)));
+      case '$nin':
+        return !candidates.some(candidate => (operand as any[]).some(option => deepEqual(candidate, option)));
+      case '$exists':
+        return (values.length > 0) === operand;
+      case '$not':
+        return !matchesCondition(values, operand);
+      default:
+        return candidates.some(candidate => compareRange(operator, candidate, operand));
+    }
+  });
+}
+
+function compareRange(operator: string, value: any, operand: number | string): boolean {
+  if (typeof value !== typeof operand) return false;
+
+  switch (operator) {
+    case '$gt':
+      return value > operand;
+    case '$gte':
+      return value >= operand;
+    case '$lt':
+      return value < operand;
+    case '$lte':
+      return value <= operand;
+    default:
+      return false;
+  }
+}
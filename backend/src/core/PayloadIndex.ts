@@ -0,0 +1,159 @@
+import { MetadataFilter } from './MetadataFilter';
+
+// Long strings such as chunk text are not worth indexing for equality lookups
+const MAX_INDEXED_STRING_LENGTH = 256;
+
+type Scalar = string | number | boolean | null;
+
+function isScalar(value: unknown): value is Scalar {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Inverted index from metadata field values to document ids within a collection.
+ *
+ * Scalar values (and scalar array elements) are indexed under their dot path.
+ * Paths holding values that cannot be indexed (long strings, arrays of objects)
+ * are marked partial, and filters touching them fall back to a full scan.
+ * The index is used to estimate how many documents a filter can match, so
+ * search can choose between brute-force pre-filtering and HNSW traversal.
+ */
+export class PayloadIndex {
+  private fields: Map<string, Map<string, Set<string>>> = new Map();
+  private partialPaths: Set<string> = new Set();
+
+  add(docId: string, metadata: Record<string, any>): void {
+    this.visit(metadata, '', (path, value) => {
+      let values = this.fields.get(path);
+      if (!values) {
+        values = new Map();
+        this.fields.set(path, values);
+      }
+
+      const key = JSON.stringify(value);
+      let ids = values.get(key);
+      if (!ids) {
+        ids = new Set();
+        values.set(key, ids);
+      }
+      ids.add(docId);
+    });
+  }
+
+  remove(docId: string, metadata: Record<string, any>): void {
+    this.visit(metadata, '', (path, value) => {
+      const values = this.fields.get(path);
+      const key = JSON.stringify(value);
+      const ids = values?.get(key);
+      if (!values || !ids) return;
+
+      ids.delete(docId);
+      if (ids.size === 0) values.delete(key);
+      if (values.size === 0) this.fields.delete(path);
+    });
+  }
+
+  /**
+   * Return a superset of the document ids that can match the filter,
+   * or null when the filter cannot be answered from the index
+   */
+  estimateCandidates(filter: MetadataFilter): Set<string> | null {
+    const sets: Set<string>[] = [];
+
+    for (const [key, value] of Object.entries(filter)) {
+      let candidates: Set<string> | null = null;
+
+      if (key === '$and') {
+        candidates = this.intersect((value as MetadataFilter[]).map(item => this.estimateCandidates(item)));
+      } else if (key === '$or') {
+        const branches = (value as MetadataFilter[]).map(item => this.estimateCandidates(item));
+        if (branches.every(branch => branch !== null)) {
+          candidates = new Set(branches.flatMap(branch => Array.from(branch!)));
+        }
+      } else if (!key.startsWith('$')) {
+        candidates = this.lookupCondition(key, value);
+      }
+
+      if (candidates) sets.push(candidates);
+    }
+
+    // Conditions the index cannot answer only narrow the result further, so skipping them keeps a superset
+    return this.intersect(sets);
+  }
+
+  private lookupCondition(path: string, condition: any): Set<string> | null {
+    if (this.isPartial(path)) return null;
+
+    if (isScalar(condition)) {
+      return this.lookup(path, [condition]);
+    }
+
+    if (isPlainObject(condition)) {
+      const sets: Set<string>[] = [];
+      if ('$eq' in condition && isScalar(condition.$eq)) {
+        sets.push(this.lookup(path, [condition.$eq]));
+      }
+      if ('$in' in condition && (condition.$in as any[]).every(isScalar)) {
+        sets.push(this.lookup(path, condition.$in));
+      }
+      return this.intersect(sets);
+    }
+
+    return null;
+  }
+
+  private lookup(path: string, values: Scalar[]): Set<string> {
+    const result = new Set<string>();
+    const indexed = this.fields.get(path);
+    if (!indexed) return result;
+
+    for (const value of values) {
+      const ids = indexed.get(JSON.stringify(value));
+      ids?.forEach(id => result.add(id));
+    }
+    return result;
+  }
+
+  private intersect(sets: (Set<string> | null)[]): Set<string> | null {
+    const known = sets.filter((set): set is Set<string> => set !== null);
+    if (known.length === 0) return null;
+
+    known.sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = known;
+    return new Set(Array.from(smallest).filter(id => rest.every(set => set.has(id))));
+  }
+
+  private isPartial(path: string): boolean {
+    const segments = path.split('.');
+    for (let i = 1; i <= segments.length; i++) {
+      if (this.partialPaths.has(segments.slice(0, i).join('.'))) return true;
+    }
+    return false;
+  }
+
+  private visit(metadata: Record<string, any>, prefix: string, callback: (path: string, value: Scalar) => void): void {
+    for (const [key, value] of Object.entries(metadata)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (value === undefined) continue;
+
+      if (isPlainObject(value)) {
+        this.visit(value, path, callback);
+        continue;
+      }
+
+      const elements = Array.isArray(value) ? value : [value];
+      for (const element of elements) {
+        if (isScalar(element) && !(typeof element === 'string' && element.length > MAX_INDEXED_STRING_LENGTH)) {
+          callback(path, element);
+        } else {
+          this.partialPaths.add(path);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { Collection, SnapshotChain, StoredDocument, VectorDocument } from './VectorEngine';
+import type { LabelAllocatorState } from './LabelAllocator';
+import type { DataKey } from '../services/EnvelopeEncryption';
+
+export type WalOperation =
+  | { op: 'createCollection'; collection: Collection }
+  | { op: 'deleteCollection'; collectionId: string }
+  | { op: 'insert'; collectionId: string; document: VectorDocument }
+  | { op: 'update'; collectionId: string; document: StoredDocument }
+  | { op: 'delete'; collectionId: string; docId: string; timestamp: number }
+  | { op: 'deleteMany'; collectionId: string; docIds: string[]; timestamp: number }
+  | { op: 'snapshotChain'; collectionId: string; chain: SnapshotChain }
+  | { op: 'setDataKey'; collectionId: string; dataKey: DataKey };
+
+export type WalEntry = WalOperation & { seq: number };
+
+export interface SnapshotManifest {
+  version: number;
+  lastSeq: number;
+  createdAt: number;
+  collections: Collection[];
+  deletedCollections: string[];
+}
+
+export interface SnapshotCollection {
+  collection: Collection;
+  documents: StoredDocument[];
+  labels: LabelAllocatorState;
+  // Deletion times of vectors not yet covered by an exported delta segment
+  tombstones: [string, number][];
+  index: { writeIndexSync(filename: string): void };
+}
+
+export interface RestoredState {
+  manifest: SnapshotManifest | null;
+  entries: WalEntry[];
+}
+
+const SNAPSHOT_VERSION = 1;
+const WAL_FILE = 'wal.log';
+const SNAPSHOT_DIR = 'snapshot';
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Durable storage for VectorEngine state.
+ *
+ * Every mutation is appended to a write-ahead log before the engine acknowledges it.
+ * With fsync on (the default) each entry is flushed to disk before append returns, so an
+ * acknowledged write survives a power loss; with it off it only survives a process crash.
+ * Snapshots periodically capture the full state (HNSW graphs via hnswlib's writeIndex
+ * plus document metadata), after which the log is truncated. On boot the latest
+ * snapshot is loaded and any log entries newer than it are replayed.
+ */
+export class PersistenceManager {
+  private dataDir: string;
+  private walPath: string;
+  private fsync: boolean;
+  private seq: number = 0;
+  private pendingOperations: number = 0;
+
+  constructor(dataDir: string, options: { fsync?: boolean } = {}) {
+    this.dataDir = path.resolve(dataDir);
+    this.fsync = options.fsync ?? true;
+    this.walPath = path.join(this.dataDir, WAL_FILE);
+    fs.ensureDirSync(this.dataDir);
+  }
+
+  /**
+   * Number of log entries written since the last snapshot
+   */
+  getPendingOperations(): number {
+    return this.pendingOperations;
+  }
+
+  /**
+   * Path of a collection's HNSW index file inside the current snapshot
+   */
+  indexPath(collectionId: string): string {
+    return path.join(this.dataDir, SNAPSHOT_DIR, `${collectionId}.hnsw`);
+  }
+
+  /**
+   * Load the latest snapshot manifest and the log entries recorded after it
+   */
+  load(): RestoredState {
+    this.recoverInterruptedSnapshot();
+
+    const manifestPath = path.join(this.dataDir, SNAPSHOT_DIR, MANIFEST_FILE);
+    let manifest: SnapshotManifest | null = null;
+
+    if (fs.pathExistsSync(manifestPath)) {
+      manifest = fs.readJsonSync(manifestPath) as SnapshotManifest;
+      if (manifest.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${manifest.version} in ${manifestPath}`);
+      }
+      this.seq = manifest.lastSeq;
+    }
+
+    const { entries: walEntries, torn } = this.readWal();
+    if (torn) {
+      // Rewrite the log without the torn tail so new appends start on a clean line
+      fs.writeFileSync(this.walPath, walEntries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    }
+
+    const entries = walEntries.filter(entry => !manifest || entry.seq > manifest.lastSeq);
+    if (entries.length > 0) {
+      this.seq = entries[entries.length - 1].seq;
+    }
+    this.pendingOperations = entries.length;
+
+    return { manifest, entries };
+  }
+
+  /**
+   * Read the documents stored for a collection in the current snapshot
+   */
+  loadDocuments(collectionId: string): StoredDocument[] {
+    const docsPath = path.join(this.dataDir, SNAPSHOT_DIR, `${collectionId}.docs.json`);
+    if (!fs.pathExistsSync(docsPath)) {
+      return [];
+    }
+    return fs.readJsonSync(docsPath) as StoredDocument[];
+  }
+
+  /**
+   * Read the HNSW label assignments stored for a collection in the current snapshot
+   */
+  loadLabels(collectionId: string): LabelAllocatorState {
+    const labelsPath = path.join(this.dataDir, SNAPSHOT_DIR, `${collectionId}.labels.json`);
+    return fs.readJsonSync(labelsPath) as LabelAllocatorState;
+  }
+
+  /**
+   * Read the pending deletions stored for a collection in the current snapshot
+   */
+  loadTombstones(collectionId: string): [string, number][] {
+    const tombstonesPath = path.join(this.dataDir, SNAPSHOT_DIR, `${collectionId}.tombstones.json`);
+    if (!fs.pathExistsSync(tombstonesPath)) {
+      return [];
+    }
+    return fs.readJsonSync(tombstonesPath) as [string, number][];
+  }
+
+  /**
+   * Append an operation to the write-ahead log
+   */
+  append(operation: WalOperation): void {
+    const entry: WalEntry = { ...operation, seq: ++this.seq };
+    const fd = fs.openSync(this.walPath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      if (this.fsync) {
+        fs.fsyncSync(fd);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.pendingOperations++;
+  }
+
+  /**
+   * Write a full snapshot and truncate the write-ahead log.
+   * The new snapshot is built in a temporary directory and swapped in,
+   * so a crash mid-write leaves the previous snapshot intact.
+   */
+  writeSnapshot(collections: SnapshotCollection[], deletedCollections: string[]): void {
+    const snapshotDir = path.join(this.dataDir, SNAPSHOT_DIR);
+    const tempDir = `${snapshotDir}.tmp`;
+    const previousDir = `${snapshotDir}.old`;
+
+    fs.removeSync(tempDir);
+    fs.ensureDirSync(tempDir);
+
+    for (const { collection, documents, labels, tombstones, index } of collections) {
+      index.writeIndexSync(path.join(tempDir, `${collection.id}.hnsw`));
+      fs.writeJsonSync(path.join(tempDir, `${collection.id}.docs.json`), documents);
+      fs.writeJsonSync(path.join(tempDir, `${collection.id}.labels.json`), labels);
+      if (tombstones.length > 0) {
+        fs.writeJsonSync(path.join(tempDir, `${collection.id}.tombstones.json`), tombstones);
+      }
+    }
+
+    const manifest: SnapshotManifest = {
+      version: SNAPSHOT_VERSION,
+      lastSeq: this.seq,
+      createdAt: Date.now(),
+      collections: collections.map(c => c.collection),
+      deletedCollections,
+    };
+    fs.writeJsonSync(path.join(tempDir, MANIFEST_FILE), manifest);
+
+    fs.removeSync(previousDir);
+    if (fs.pathExistsSync(snapshotDir)) {
+      fs.moveSync(snapshotDir, previousDir);
+    }
+    fs.moveSync(tempDir, snapshotDir);
+    fs.removeSync(previousDir);
+
+    // Every logged entry is now covered by the snapshot
+    fs.writeFileSync(this.walPath, '');
+    this.pendingOperations = 0;
+  }
+
+  /**
+   * Restore the previous snapshot if a crash happened between swapping directories
+   */
+  private recoverInterruptedSnapshot(): void {
+    const snapshotDir = path.join(this.dataDir, SNAPSHOT_DIR);
+    const previousDir = `${snapshotDir}.old`;
+
+    if (!fs.pathExistsSync(snapshotDir) && fs.pathExistsSync(previousDir)) {
+      console.warn('⚠️ Recovering previous snapshot after interrupted snapshot write');
+      fs.moveSync(previousDir, snapshotDir);
+    }
+    fs.removeSync(`${snapshotDir}.tmp`);
+  }
+
+  private readWal(): { entries: WalEntry[]; torn: boolean } {
+    if (!fs.pathExistsSync(this.walPath)) {
+      return { entries: [], torn: false };
+    }
+
+    const lines = fs.readFileSync(this.walPath, 'utf-8').split('\n');
+    const entries: WalEntry[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+
+      try {
+        entries.push(JSON.parse(line) as WalEntry);
+      } catch (error) {
+        // A torn final line means the process died mid-append; the operation was never acknowledged
+        if (i === lines.length - 1) {
+          console.warn(`⚠️ Ignoring incomplete trailing write-ahead log entry in ${this.walPath}`);
+          return { entries, torn: true };
+        }
+        throw new Error(`Corrupt write-ahead log entry at line ${i + 1} of ${this.walPath}`);
+      }
+    }
+
+    return { entries, torn: false };
+  }
+}
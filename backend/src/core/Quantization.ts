@@ -0,0 +1,342 @@
+import { DistanceMetric } from './DistanceMetric';
+
+/**
+ * Vector quantization for collections.
+ *
+ * A quantized collection keeps a code per document in place of its copy of the raw vector:
+ *
+ * - scalar: every dimension is mapped to an int8 bucket between its trained min and max (d bytes)
+ * - product: the vector is split into subvectors, each replaced by the id of its nearest
+ *   centroid from a trained 256-entry codebook (one byte per subvector)
+ *
+ * The HNSW index still holds every vector at full precision, and searches through it never
+ * use codes. Codes only rank documents in brute-force (pre-filtered or fallback) search, where
+ * callers re-rank the best candidates at full precision.
+ */
+export type QuantizationType = 'none' | 'scalar' | 'product';
+
+export const QUANTIZATION_TYPES: QuantizationType[] = ['none', 'scalar', 'product'];
+
+export function isQuantizationType(value: unknown): value is QuantizationType {
+  return typeof value === 'string' && (QUANTIZATION_TYPES as string[]).includes(value);
+}
+
+export interface QuantizationOptions {
+  type: QuantizationType;
+  subvectors?: number;
+  trainingSize?: number;
+  rerankMultiplier?: number;
+}
+
+export interface QuantizationConfig {
+  type: QuantizationType;
+  // Number of product quantization subvectors, must divide the dimension
+  subvectors: number;
+  // Vectors collected at full precision before the quantizer is trained
+  trainingSize: number;
+  // Candidates re-ranked at full precision, as a multiple of k
+  rerankMultiplier: number;
+}
+
+export interface Quantizer {
+  readonly bytesPerVector: number;
+  isTrained(): boolean;
+  train(samples: number[][]): void;
+  encode(vector: number[]): Uint8Array;
+  /**
+   * Build an approximate distance from the query to encoded vectors, on the same scale as hnswlib
+   */
+  distanceFunction(query: number[]): (code: Uint8Array) => number;
+}
+
+// One byte per code entry
+const CODEBOOK_SIZE = 256;
+const KMEANS_ITERATIONS = 10;
+
+/**
+ * Pick the default number of product quantization subvectors: the finest split into
+ * subvectors of 8, 4, 2 or 1 dimensions that divides the dimension evenly
+ */
+export function defaultSubvectors(dimension: number): number {
+  const subDimension = [8, 4, 2, 1].find(size => dimension % size === 0)!;
+  return dimension / subDimension;
+}
+
+/**
+ * Validate quantization options for a collection, returning a list of problems
+ */
+export function validateQuantization(options: unknown, dimension: number): string[] {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return ['Quantization must be an object'];
+  }
+
+  const { type, subvectors, trainingSize, rerankMultiplier } = options as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isQuantizationType(type)) {
+    errors.push(`Quantization type must be one of: ${QUANTIZATION_TYPES.join(', ')}`);
+  }
+  if (subvectors !== undefined) {
+    if (!Number.isInteger(subvectors) || (subvectors as number) < 1) {
+      errors.push('subvectors must be a positive integer');
+    } else if (dimension % (subvectors as number) !== 0) {
+      errors.push(`subvectors (${subvectors}) must divide the dimension (${dimension})`);
+    }
+  }
+  if (trainingSize !== undefined && (!Number.isInteger(trainingSize) || (trainingSize as number) < 1)) {
+    errors.push('trainingSize must be a positive integer');
+  }
+  if (rerankMultiplier !== undefined && (typeof rerankMultiplier !== 'number' || rerankMultiplier < 1)) {
+    errors.push('rerankMultiplier must be a number of at least 1');
+  }
+
+  return errors;
+}
+
+export function createQuantizer(config: QuantizationConfig, metric: DistanceMetric, dimension: number): Quantizer {
+  switch (config.type) {
+    case 'scalar':
+      return new ScalarQuantizer(metric, dimension);
+    case 'product':
+      return new ProductQuantizer(metric, dimension, config.subvectors);
+    default:
+      throw new Error(`Cannot create a quantizer of type ${config.type}`);
+  }
+}
+
+/**
+ * Cosine collections are quantized as unit vectors so distances reduce to inner products
+ */
+function prepare(metric: DistanceMetric, vector: number[]): number[] {
+  if (metric !== 'cosine') return vector;
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * int8 scalar quantization with per-dimension ranges
+ */
+export class ScalarQuantizer implements Quantizer {
+  readonly bytesPerVector: number;
+  private mins: Float32Array | null = null;
+  private scales: Float32Array | null = null;
+
+  constructor(private metric: DistanceMetric, private dimension: number) {
+    this.bytesPerVector = dimension;
+  }
+
+  isTrained(): boolean {
+    return this.mins !== null;
+  }
+
+  train(samples: number[][]): void {
+    if (samples.length === 0) {
+      throw new Error('Cannot train a scalar quantizer without samples');
+    }
+
+    const mins = new Float32Array(this.dimension).fill(Infinity);
+    const maxs = new Float32Array(this.dimension).fill(-Infinity);
+    for (const sample of samples) {
+      const vector = prepare(this.metric, sample);
+      for (let i = 0; i < this.dimension; i++) {
+        mins[i] = Math.min(mins[i], vector[i]);
+        maxs[i] = Math.max(maxs[i], vector[i]);
+      }
+    }
+
+    this.scales = maxs.map((max, i) => (max - mins[i]) / (CODEBOOK_SIZE - 1));
+    this.mins = mins;
+  }
+
+  encode(vector: number[]): Uint8Array {
+    const mins = this.mins!;
+    const scales = this.scales!;
+    const prepared = prepare(this.metric, vector);
+    const code = new Uint8Array(this.dimension);
+
+    for (let i = 0; i < this.dimension; i++) {
+      // Values outside the trained range are clamped to its ends
+      const bucket = scales[i] === 0 ? 0 : Math.round((prepared[i] - mins[i]) / scales[i]);
+      code[i] = Math.min(CODEBOOK_SIZE - 1, Math.max(0, bucket));
+    }
+    return code;
+  }
+
+  distanceFunction(query: number[]): (code: Uint8Array) => number {
+    const mins = this.mins!;
+    const scales = this.scales!;
+    const prepared = prepare(this.metric, query);
+
+    if (this.metric === 'l2') {
+      return code => {
+        let squared = 0;
+        for (let i = 0; i < this.dimension; i++) {
+          const diff = mins[i] + code[i] * scales[i] - prepared[i];
+          squared += diff * diff;
+        }
+        return squared;
+      };
+    }
+
+    // dot(q, min + code * scale) splits into a constant part and a weighted sum of the codes
+    let offset = 0;
+    const weights = new Float32Array(this.dimension);
+    for (let i = 0; i < this.dimension; i++) {
+      offset += mins[i] * prepared[i];
+      weights[i] = scales[i] * prepared[i];
+    }
+
+    return code => {
+      let dot = offset;
+      for (let i = 0; i < this.dimension; i++) {
+        dot += weights[i] * code[i];
+      }
+      return 1 - dot;
+    };
+  }
+}
+
+/**
+ * Product quantization with a k-means codebook per subvector
+ */
+export class ProductQuantizer implements Quantizer {
+  readonly bytesPerVector: number;
+  private subDimension: number;
+  private centroidCount: number = 0;
+  // One flat array of centroidCount * subDimension values per subvector
+  private codebooks: Float32Array[] = [];
+
+  constructor(private metric: DistanceMetric, private dimension: number, private subvectors: number) {
+    if (dimension % subvectors !== 0) {
+      throw new Error(`Subvector count ${subvectors} must divide the dimension ${dimension}`);
+    }
+    this.subDimension = dimension / subvectors;
+    this.bytesPerVector = subvectors;
+  }
+
+  isTrained(): boolean {
+    return this.codebooks.length > 0;
+  }
+
+  train(samples: number[][]): void {
+    if (samples.length === 0) {
+      throw new Error('Cannot train a product quantizer without samples');
+    }
+
+    const prepared = samples.map(sample => prepare(this.metric, sample));
+    this.centroidCount = Math.min(CODEBOOK_SIZE, prepared.length);
+    this.codebooks = [];
+
+    for (let s = 0; s < this.subvectors; s++) {
+      const offset = s * this.subDimension;
+      const points = prepared.map(vector => vector.slice(offset, offset + this.subDimension));
+      this.codebooks.push(this.kmeans(points));
+    }
+  }
+
+  encode(vector: number[]): Uint8Array {
+    const prepared = prepare(this.metric, vector);
+    const code = new Uint8Array(this.subvectors);
+
+    for (let s = 0; s < this.subvectors; s++) {
+      const offset = s * this.subDimension;
+      code[s] = this.nearestCentroid(this.codebooks[s], prepared.slice(offset, offset + this.subDimension));
+    }
+    return code;
+  }
+
+  distanceFunction(query: number[]): (code: Uint8Array) => number {
+    const prepared = prepare(this.metric, query);
+    const table = new Float32Array(this.subvectors * this.centroidCount);
+
+    // Precompute the query's partial distance to every centroid, so scoring a code is a table lookup per subvector
+    for (let s = 0; s < this.subvectors; s++) {
+      const codebook = this.codebooks[s];
+      const offset = s * this.subDimension;
+
+      for (let c = 0; c < this.centroidCount; c++) {
+        let partial = 0;
+        for (let i = 0; i < this.subDimension; i++) {
+          const centroidValue = codebook[c * this.subDimension + i];
+          if (this.metric === 'l2') {
+            const diff = centroidValue - prepared[offset + i];
+            partial += diff * diff;
+          } else {
+            partial += centroidValue * prepared[offset + i];
+          }
+        }
+        table[s * this.centroidCount + c] = partial;
+      }
+    }
+
+    return code => {
+      let total = 0;
+      for (let s = 0; s < this.subvectors; s++) {
+        total += table[s * this.centroidCount + code[s]];
+      }
+      return this.metric === 'l2' ? total : 1 - total;
+    };
+  }
+
+  private kmeans(points: number[][]): Float32Array {
+    const k = this.centroidCount;
+    const centroids = new Float32Array(k * this.subDimension);
+
+    // Seed with evenly spaced samples so training is deterministic
+    for (let c = 0; c < k; c++) {
+      centroids.set(points[Math.floor(c * points.length / k)], c * this.subDimension);
+    }
+
+    const assignments = new Int32Array(points.length);
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      let changed = false;
+      for (let p = 0; p < points.length; p++) {
+        const nearest = this.nearestCentroid(centroids, points[p]);
+        if (nearest !== assignments[p]) {
+          assignments[p] = nearest;
+          changed = true;
+        }
+      }
+      if (iteration > 0 && !changed) break;
+
+      const sums = new Float64Array(k * this.subDimension);
+      const counts = new Int32Array(k);
+      for (let p = 0; p < points.length; p++) {
+        const c = assignments[p];
+        counts[c]++;
+        for (let i = 0; i < this.subDimension; i++) {
+          sums[c * this.subDimension + i] += points[p][i];
+        }
+      }
+
+      // Empty clusters keep their previous centroid
+      for (let c = 0; c < k; c++) {
+        if (counts[c] === 0) continue;
+        for (let i = 0; i < this.subDimension; i++) {
+          centroids[c * this.subDimension + i] = sums[c * this.subDimension + i] / counts[c];
+        }
+      }
+    }
+
+    return centroids;
+  }
+
+  private nearestCentroid(codebook: Float32Array, point: number[]): number {
+    let best = 0;
+    let bestDistance = Infinity;
+
+    for (let c = 0; c < this.centroidCount; c++) {
+      let squared = 0;
+      for (let i = 0; i < this.subDimension; i++) {
+        const diff = codebook[c * this.subDimension + i] - point[i];
+        squared += diff * diff;
+      }
+      if (squared < bestDistance) {
+        bestDistance = squared;
+        best = c;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,98 @@
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export const FUSION_METHODS: FusionMethod[] = ['rrf', 'weighted'];
+
+export interface HybridOptions {
+  fusion?: FusionMethod;
+  // Weight of the vector score in weighted blending, between 0 and 1
+  alpha?: number;
+}
+
+export interface RankedItem {
+  id: string;
+  score: number;
+}
+
+export interface FusedItem {
+  id: string;
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+}
+
+// Damping constant from the original reciprocal rank fusion paper
+const RRF_K = 60;
+
+export function isSearchMode(value: unknown): value is SearchMode {
+  return typeof value === 'string' && (SEARCH_MODES as string[]).includes(value);
+}
+
+export function isFusionMethod(value: unknown): value is FusionMethod {
+  return typeof value === 'string' && (FUSION_METHODS as string[]).includes(value);
+}
+
+/**
+ * Merge vector and keyword rankings into a single ranking.
+ *
+ * - rrf: sum of 1 / (60 + rank) over both lists; robust to the very different score scales
+ * - weighted: min-max normalise each list, then alpha * vector + (1 - alpha) * keyword
+ */
+export function fuseRankings(
+  vectorResults: RankedItem[],
+  keywordResults: RankedItem[],
+  options: HybridOptions = {}
+): FusedItem[] {
+  const fusion = options.fusion ?? 'rrf';
+  const alpha = options.alpha ?? 0.5;
+  const fused = new Map<string, FusedItem>();
+
+  const entry = (id: string): FusedItem => {
+    let item = fused.get(id);
+    if (!item) {
+      item = { id, score: 0 };
+      fused.set(id, item);
+    }
+    return item;
+  };
+
+  if (fusion === 'rrf') {
+    vectorResults.forEach((result, rank) => {
+      const item = entry(result.id);
+      item.vectorScore = result.score;
+      item.score += 1 / (RRF_K + rank + 1);
+    });
+    keywordResults.forEach((result, rank) => {
+      const item = entry(result.id);
+      item.keywordScore = result.score;
+      item.score += 1 / (RRF_K + rank + 1);
+    });
+  } else {
+    const vectorNormalized = normalize(vectorResults);
+    const keywordNormalized = normalize(keywordResults);
+    vectorResults.forEach((result, i) => {
+      const item = entry(result.id);
+      item.vectorScore = result.score;
+      item.score += alpha * vectorNormalized[i];
+    });
+    keywordResults.forEach((result, i) => {
+      const item = entry(result.id);
+      item.keywordScore = result.score;
+      item.score += (1 - alpha) * keywordNormalized[i];
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+function normalize(results: RankedItem[]): number[] {
+  if (results.length === 0) return [];
+
+  const scores = results.map(r => r.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map(score => (max === min ? 1 : (score - min) / (max - min)));
+}
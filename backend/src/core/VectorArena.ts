@@ -0,0 +1,86 @@
+// Vectors per block; 256 vectors of 768 dimensions take 768KB
+const DEFAULT_BLOCK_SIZE = 256;
+
+/**
+ * Contiguous float32 storage for a collection's raw vectors.
+ *
+ * Vectors live in fixed-size Float32Array blocks and are addressed by slot, so a
+ * collection holds a handful of typed arrays instead of one JS array per vector.
+ * Released slots are reused by later allocations. Reads return views into the
+ * block; callers that hand a vector outside the engine should copy it.
+ */
+export class VectorArena {
+  private blocks: Float32Array[] = [];
+  private freeSlots: number[] = [];
+  private nextSlot: number = 0;
+
+  constructor(private dimension: number, private blockSize: number = DEFAULT_BLOCK_SIZE) {}
+
+  /**
+   * Store a vector, returning its slot
+   */
+  allocate(vector: ArrayLike<number>): number {
+    let slot = this.freeSlots.pop();
+    if (slot === undefined) {
+      slot = this.nextSlot++;
+      if (slot >= this.blocks.length * this.blockSize) {
+        this.blocks.push(new Float32Array(this.blockSize * this.dimension));
+      }
+    }
+
+    this.set(slot, vector);
+    return slot;
+  }
+
+  /**
+   * Overwrite the vector held in a slot
+   */
+  set(slot: number, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match arena dimension ${this.dimension}`);
+    }
+    const { block, offset } = this.locate(slot);
+    block.set(vector, offset);
+  }
+
+  /**
+   * View of the vector in a slot; it changes if the slot is overwritten or reused
+   */
+  get(slot: number): Float32Array {
+    const { block, offset } = this.locate(slot);
+    return block.subarray(offset, offset + this.dimension);
+  }
+
+  /**
+   * Copy of the vector in a slot as a plain array
+   */
+  copy(slot: number): number[] {
+    return Array.from(this.get(slot));
+  }
+
+  release(slot: number): void {
+    this.freeSlots.push(slot);
+  }
+
+  /**
+   * Number of slots currently holding a vector
+   */
+  getSize(): number {
+    return this.nextSlot - this.freeSlots.length;
+  }
+
+  /**
+   * Bytes reserved by the arena's blocks, including free slots
+   */
+  getAllocatedBytes(): number {
+    return this.blocks.length * this.blockSize * this.dimension * Float32Array.BYTES_PER_ELEMENT;
+  }
+
+  private locate(slot: number): { block: Float32Array; offset: number } {
+    const block = this.blocks[Math.floor(slot / this.blockSize)];
+    if (!block || slot >= this.nextSlot) {
+      throw new Error(`Vector slot ${slot} is not allocated`);
+    }
+    return { block, offset: (slot % this.blockSize) * this.dimension };
+  }
+}
@@ -1,8 +1,37 @@
 import * as hnswlib from 'hnswlib-node';
+import * as fs from 'fs-extra';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config';
 import { VectorRegistryService, CollectionInfo } from '../services/VectorRegistryService';
 import { StorageOracleService } from '../services/StorageOracleService';
+import { IStorageService } from '../services/StorageInterface';
+import { DataKey, EnvelopeEncryption } from '../services/EnvelopeEncryption';
+import { PersistenceManager, WalOperation } from './PersistenceManager';
+import { LabelAllocator } from './LabelAllocator';
+import { DistanceMetric, DEFAULT_METRIC, isDistanceMetric, distanceToScore, computeDistance } from './DistanceMetric';
+import { MetadataFilter, MetadataPredicate, compileFilter } from './MetadataFilter';
+import { PayloadIndex } from './PayloadIndex';
+import { VectorArena } from './VectorArena';
+import {
+  DeltaSegmentContents,
+  writeCollectionSnapshot,
+  readCollectionSnapshot,
+  writeDeltaSegment,
+  readDeltaSegment,
+  isDeltaSegment,
+  snapshotChecksum,
+} from './CollectionSnapshot';
+import { KeywordIndex } from './KeywordIndex';
+import { HybridOptions, fuseRankings } from './RankFusion';
+import {
+  Quantizer,
+  QuantizationConfig,
+  QuantizationOptions,
+  createQuantizer,
+  defaultSubvectors,
+  validateQuantization,
+} from './Quantization';
 
 export interface VectorDocument {
   id: string;
@@ -11,98 +40,1379 @@ export interface VectorDocument {
   timestamp: number;
 }
 
+/**
+ * A document as written to snapshots and logged updates. The vector is left out for
+ * metadata-only updates and for quantized documents, whose full-precision copy is in the HNSW index.
+ */
+export interface StoredDocument {
+  id: string;
+  vector?: number[];
+  // Norm of a quantized cosine vector, which the index only holds unit-normalized
+  norm?: number;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+/**
+ * A document as held in memory. Raw vectors live in the collection's arena at `slot`;
+ * quantized collections drop them once their quantizer is trained and keep only the code,
+ * reading the full-precision vector back from the HNSW index when needed.
+ * Cosine collections then also keep the vector's norm, since hnswlib stores it unit-normalized.
+ */
+interface DocumentRecord {
+  id: string;
+  slot?: number;
+  code?: Uint8Array;
+  norm?: number;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
 export interface SearchResult {
   id: string;
   score: number;
   metadata: Record<string, any>;
+  vectorScore?: number;
+  keywordScore?: number;
+}
+
+// Each side of a hybrid search contributes this many times k candidates to the fusion
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+// Guards against cycles when following delta segments back to their base snapshot
+const MAX_SNAPSHOT_CHAIN_LENGTH = 1000;
+
+export interface UpsertItem {
+  id: string;
+  vector?: number[];
+  metadata?: Record<string, any>;
+}
+
+export interface UpsertResult {
+  id: string;
+  created: boolean;
+}
+
+export interface BulkDeleteSelector {
+  ids?: string[];
+  filter?: MetadataFilter;
+}
+
+export interface BulkDeleteResult {
+  matched: number;
+  deleted: number;
+  ids: string[];
+}
+
+export interface DocumentSummary {
+  documentId: string;
+  filename?: string;
+  contentHash?: string;
+  chunkCount: number;
+  created: number;
+  updated: number;
 }
 
 export interface Collection {
   id: string;
   name: string;
   dimension: number;
+  metric: DistanceMetric;
   count: number;
+  capacity: number;
+  quantization?: QuantizationConfig;
+  snapshotChain?: SnapshotChain;
+  // Wrapped data key that encrypts the collection's uploads; its keyId identifies it in envelopes
+  encryption?: DataKey;
   created: number;
   updated: number;
 }
 
+/**
+ * Where a collection's exports to storage stand: a full base snapshot followed by
+ * `sequence` delta segments, the last of which is the head recorded on chain
+ */
+export interface SnapshotChain {
+  baseRoot: string;
+  headRoot: string;
+  headChecksum: string;
+  sequence: number;
+  // Changes stamped at or after this time have not been exported yet
+  capturedAt: number;
+}
+
+export interface CollectionOptions {
+  initialCapacity?: number;
+  metric?: DistanceMetric;
+  quantization?: QuantizationOptions;
+}
+
+// 'auto' appends a delta segment when a base exists and compacts into a new base when the chain grows too long
+export type ExportMode = 'auto' | 'full' | 'delta';
+
+export const EXPORT_MODES: ExportMode[] = ['auto', 'full', 'delta'];
+
+export interface CollectionExport {
+  collectionId: string;
+  // 'unchanged' means nothing changed since the last export, so nothing was uploaded
+  kind: 'base' | 'delta' | 'unchanged';
+  root: string;
+  baseRoot: string;
+  sequence: number;
+  upserts: number;
+  deletes: number;
+  size: number;
+  checksum: string;
+  vectorCount: number;
+  uploadTxHash: string | null;
+  txHash: string | null;
+}
+
+export interface CollectionImportOptions {
+  // Import under this id instead of the one recorded in the snapshot
+  collectionId?: string;
+  name?: string;
+  // Storage root the snapshot was downloaded from, recorded for collections new to the registry
+  sourceRoot?: string;
+  // Replace an existing collection that holds no vectors, such as a placeholder synced from the registry
+  replaceEmpty?: boolean;
+}
+
+export type RehydrationState = 'pending' | 'downloading' | 'verifying' | 'loading' | 'ready' | 'failed' | 'skipped';
+
+export interface RehydrationProgress {
+  collectionId: string;
+  name: string;
+  storageRoot: string;
+  state: RehydrationState;
+  // Vector count recorded on chain, then the number actually loaded once ready
+  vectorCount: number;
+  bytes?: number;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface CollectionMemoryStats {
+  id: string;
+  name: string;
+  vectors: number;
+  quantization: string;
+  // Bytes reserved by the collection's vector arena, including free slots
+  arenaBytes: number;
+  // Estimated bytes held per vector: the document store copy (a code once quantized) plus
+  // the HNSW node, which keeps the full-precision vector either way
+  bytesPerVector: {
+    stored: number;
+    index: number;
+    total: number;
+  };
+}
+
 export class VectorEngine {
   private indices: Map<string, any> = new Map();
-  private documents: Map<string, Map<string, VectorDocument>> = new Map();
+  private documents: Map<string, Map<string, DocumentRecord>> = new Map();
+  private arenas: Map<string, VectorArena> = new Map();
   private collections: Map<string, Collection> = new Map();
+  private labels: Map<string, LabelAllocator> = new Map();
+  private payloadIndexes: Map<string, PayloadIndex> = new Map();
+  private keywordIndexes: Map<string, KeywordIndex> = new Map();
+  private quantizers: Map<string, Quantizer> = new Map();
+  // Deletion times of vectors removed since a collection's last export, for its next delta segment
+  private tombstones: Map<string, Map<string, number>> = new Map();
   private deletedCollections: Set<string> = new Set(); // Track deleted collections to prevent re-syncing
   private vectorRegistryService: VectorRegistryService;
   private storageOracleService: StorageOracleService;
+  private storageService: IStorageService | null;
+  private encryption: EnvelopeEncryption | null;
+  private persistence: PersistenceManager | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private rehydrations: Map<string, RehydrationProgress> = new Map();
+  private activeRehydrations: Map<string, Promise<void>> = new Map();
+  private activeExports: Map<string, Promise<CollectionExport>> = new Map();
+  private pendingMetrics: Map<string, DistanceMetric> = new Map(); // Metric attributes that failed to reach the chain
+  private deltaTimer: NodeJS.Timeout | null = null;
+
+  constructor(storageService?: IStorageService, vectorRegistryService?: VectorRegistryService) {
+    this.vectorRegistryService = vectorRegistryService ?? new VectorRegistryService();
+    this.storageOracleService = new StorageOracleService();
+    this.storageService = storageService ?? null;
+    this.encryption = EnvelopeEncryption.fromConfig();
+    this.initializeEngine();
+  }
+
+  private initializeEngine(): void {
+    console.log('Initializing VectorEngine with HNSW indexing...');
+    console.log(`Vector dimension: ${config.vector.dimension}`);
+    console.log(`HNSW parameters: M=${config.vector.hnsw.m}, efConstruction=${config.vector.hnsw.efConstruction}`);
+
+    if (config.persistence.enabled) {
+      this.persistence = new PersistenceManager(config.persistence.dataDir, { fsync: config.persistence.fsync });
+      this.restoreFromDisk();
+
+      this.snapshotTimer = setInterval(() => {
+        if (this.persistence && this.persistence.getPendingOperations() > 0) {
+          this.snapshot();
+        }
+      }, config.persistence.snapshotIntervalMs);
+      this.snapshotTimer.unref();
+    } else {
+      console.log('⚠️ Persistence disabled, collections are kept in memory only');
+    }
+
+    if (this.storageService && config.deltaSnapshots.intervalMs > 0) {
+      this.deltaTimer = setInterval(() => {
+        this.exportPendingChanges().catch(error => console.error('Error exporting delta snapshots:', error));
+      }, config.deltaSnapshots.intervalMs);
+      this.deltaTimer.unref();
+    }
+  }
+
+  /**
+   * Rebuild in-memory state from the latest snapshot and write-ahead log
+   */
+  private restoreFromDisk(): void {
+    if (!this.persistence) return;
+
+    console.log(`💾 Restoring collections from ${config.persistence.dataDir}...`);
+    const { manifest, entries } = this.persistence.load();
+
+    if (manifest) {
+      for (const collection of manifest.collections) {
+        const index = new hnswlib.HierarchicalNSW(collection.metric, collection.dimension);
+        index.readIndexSync(this.persistence.indexPath(collection.id), true);
+        this.installCollection(
+          collection,
+          index,
+          LabelAllocator.fromJSON(this.persistence.loadLabels(collection.id)),
+          this.persistence.loadDocuments(collection.id),
+          this.persistence.loadTombstones(collection.id)
+        );
+      }
+      manifest.deletedCollections.forEach(id => this.deletedCollections.add(id));
+    }
+
+    for (const entry of entries) {
+      this.applyOperation(entry);
+    }
+
+    const totalVectors = Array.from(this.documents.values()).reduce((sum, docs) => sum + docs.size, 0);
+    console.log(`✅ Restored ${this.collections.size} collections (${totalVectors} vectors, ${entries.length} log entries replayed)`);
+  }
+
+  /**
+   * Register a collection whose HNSW graph and label assignments were loaded from a snapshot
+   */
+  private installCollection(
+    collection: Collection,
+    index: any,
+    labels: LabelAllocator,
+    documents: StoredDocument[],
+    tombstones: [string, number][] = []
+  ): void {
+    const docs = new Map<string, DocumentRecord>();
+    const arena = new VectorArena(collection.dimension);
+    const payloadIndex = new PayloadIndex();
+    const keywordIndex = new KeywordIndex();
+    for (const { vector, ...document } of documents) {
+      docs.set(document.id, vector ? { ...document, slot: arena.allocate(vector) } : document);
+      payloadIndex.add(document.id, document.metadata);
+      if (typeof document.metadata.text === 'string') {
+        keywordIndex.add(document.id, document.metadata.text);
+      }
+    }
+
+    collection.capacity = index.getMaxElements();
+    collection.count = docs.size;
+
+    this.indices.set(collection.id, index);
+    this.documents.set(collection.id, docs);
+    this.arenas.set(collection.id, arena);
+    this.payloadIndexes.set(collection.id, payloadIndex);
+    this.keywordIndexes.set(collection.id, keywordIndex);
+    this.labels.set(collection.id, labels);
+    this.tombstones.set(collection.id, new Map(tombstones));
+    this.collections.set(collection.id, collection);
+
+    // Codes are not snapshotted; the quantizer is retrained from the full-precision vectors in the index
+    if (collection.quantization) {
+      this.quantizers.set(collection.id, createQuantizer(collection.quantization, collection.metric, collection.dimension));
+      const wasTrained = Array.from(docs.values()).some(doc => doc.slot === undefined);
+      if (docs.size >= collection.quantization.trainingSize || wasTrained) {
+        this.trainQuantizer(collection.id);
+      }
+    }
+  }
+
+  /**
+   * Apply a logged operation to in-memory state without logging it again
+   */
+  private applyOperation(operation: WalOperation): void {
+    switch (operation.op) {
+      case 'createCollection':
+        this.applyCreateCollection(operation.collection);
+        break;
+      case 'deleteCollection':
+        this.applyDeleteCollection(operation.collectionId);
+        break;
+      case 'insert':
+        if (!this.collections.has(operation.collectionId)) {
+          console.warn(`⚠️ Skipping logged insert into unknown collection ${operation.collectionId}`);
+          return;
+        }
+        this.applyInsert(operation.collectionId, operation.document);
+        break;
+      case 'update':
+        this.applyUpdate(operation.collectionId, operation.document);
+        break;
+      case 'delete':
+        this.applyDelete(operation.collectionId, operation.docId, operation.timestamp);
+        break;
+      case 'deleteMany':
+        operation.docIds.forEach(docId => this.applyDelete(operation.collectionId, docId, operation.timestamp));
+        break;
+      case 'snapshotChain':
+        this.applySnapshotChain(operation.collectionId, operation.chain);
+        break;
+      case 'setDataKey': {
+        const collection = this.collections.get(operation.collectionId);
+        if (collection) {
+          collection.encryption = operation.dataKey;
+        }
+        break;
+      }
+    }
+  }
+
+  private applyCreateCollection(collection: Collection): void {
+    const index = new hnswlib.HierarchicalNSW(collection.metric, collection.dimension);
+    // Deleted points give up their slots to later inserts, so churn does not grow the index
+    index.initIndex({
+      maxElements: collection.capacity,
+      m: config.vector.hnsw.m,
+      efConstruction: config.vector.hnsw.efConstruction,
+      allowReplaceDeleted: true,
+    });
+
+    this.indices.set(collection.id, index);
+    this.documents.set(collection.id, new Map());
+    this.arenas.set(collection.id, new VectorArena(collection.dimension));
+    this.labels.set(collection.id, new LabelAllocator());
+    this.tombstones.set(collection.id, new Map());
+    this.payloadIndexes.set(collection.id, new PayloadIndex());
+    this.keywordIndexes.set(collection.id, new KeywordIndex());
+    this.collections.set(collection.id, collection);
+    this.deletedCollections.delete(collection.id);
+
+    if (collection.quantization) {
+      this.quantizers.set(collection.id, createQuantizer(collection.quantization, collection.metric, collection.dimension));
+    }
+  }
+
+  private applyDeleteCollection(collectionId: string): boolean {
+    const deleted = this.removeCollectionState(collectionId);
+
+    if (deleted) {
+      this.rehydrations.delete(collectionId);
+      this.pendingMetrics.delete(collectionId);
+      // Mark as deleted to prevent re-syncing from blockchain
+      this.deletedCollections.add(collectionId);
+    }
+
+    return deleted;
+  }
+
+  private removeCollectionState(collectionId: string): boolean {
+    const removed = this.collections.delete(collectionId) &&
+                   this.indices.delete(collectionId) &&
+                   this.documents.delete(collectionId) &&
+                   this.labels.delete(collectionId) &&
+                   this.payloadIndexes.delete(collectionId) &&
+                   this.keywordIndexes.delete(collectionId);
+
+    if (removed) {
+      this.arenas.delete(collectionId);
+      this.quantizers.delete(collectionId);
+      this.tombstones.delete(collectionId);
+    }
+
+    return removed;
+  }
+
+  private applyInsert(collectionId: string, document: VectorDocument): void {
+    const index = this.indices.get(collectionId);
+    const docs = this.documents.get(collectionId)!;
+    const labels = this.labels.get(collectionId)!;
+    const collection = this.collections.get(collectionId)!;
+
+    // Grow the index once every slot holds a live point; a deleted point's slot is reused first
+    if (docs.size >= index.getMaxElements()) {
+      const newCapacity = index.getMaxElements() * 2;
+      index.resizeIndex(newCapacity);
+      collection.capacity = newCapacity;
+      console.log(`📈 Resized index for collection ${collectionId} to ${newCapacity} elements`);
+    }
+
+    // Add to HNSW index under a freshly allocated label, in the slot of a deleted point if there is one
+    const label = labels.allocate(document.id);
+    index.addPoint(document.vector, label, true);
+    
+    // Store document, keeping only the code once the collection's quantizer is trained
+    docs.set(document.id, this.toRecord(collectionId, document, document.vector));
+    this.payloadIndexes.get(collectionId)!.add(document.id, document.metadata);
+    if (typeof document.metadata.text === 'string') {
+      this.keywordIndexes.get(collectionId)!.add(document.id, document.metadata.text);
+    }
+    
+    // Update collection stats
+    collection.count++;
+    collection.updated = document.timestamp;
+
+    const quantizer = this.quantizers.get(collectionId);
+    if (quantizer && !quantizer.isTrained() && docs.size >= collection.quantization!.trainingSize) {
+      this.trainQuantizer(collectionId);
+    }
+  }
+
+  /**
+   * Apply an update; a document without a vector keeps its current one
+   */
+  private applyUpdate(collectionId: string, document: StoredDocument): void {
+    const index = this.indices.get(collectionId);
+    const docs = this.documents.get(collectionId);
+    const labels = this.labels.get(collectionId);
+    const collection = this.collections.get(collectionId);
+    const previous = docs?.get(document.id);
+
+    if (!index || !docs || !labels || !collection || !previous) {
+      console.warn(`⚠️ Skipping update of unknown vector ${document.id} in collection ${collectionId}`);
+      return;
+    }
+
+    // hnswlib replaces the stored point and repairs its links when a label is added again
+    const record: DocumentRecord = { ...previous, metadata: document.metadata, timestamp: document.timestamp };
+    if (document.vector) {
+      index.addPoint(document.vector, labels.getLabel(document.id)!);
+
+      const quantizer = this.quantizers.get(collectionId);
+      if (record.slot !== undefined) {
+        this.arenas.get(collectionId)!.set(record.slot, document.vector);
+      } else if (quantizer?.isTrained()) {
+        record.code = quantizer.encode(document.vector);
+        record.norm = this.cosineNorm(collectionId, document.vector);
+      }
+    }
+
+    const payloadIndex = this.payloadIndexes.get(collectionId)!;
+    payloadIndex.remove(document.id, previous.metadata);
+    payloadIndex.add(document.id, document.metadata);
+
+    const keywordIndex = this.keywordIndexes.get(collectionId)!;
+    if (typeof previous.metadata.text === 'string') {
+      keywordIndex.remove(document.id, previous.metadata.text);
+    }
+    if (typeof document.metadata.text === 'string') {
+      keywordIndex.add(document.id, document.metadata.text);
+    }
+
+    docs.set(document.id, record);
+    collection.updated = document.timestamp;
+  }
+
+  /**
+   * Apply a deletion made at the given time; replay passes the logged time so restored
+   * tombstones keep their place relative to the last export
+   */
+  private applyDelete(collectionId: string, docId: string, timestamp: number): boolean {
+    const index = this.indices.get(collectionId);
+    const docs = this.documents.get(collectionId);
+    const labels = this.labels.get(collectionId);
+    const collection = this.collections.get(collectionId);
+
+    if (!index || !docs || !labels || !collection) return false;
+
+    const document = docs.get(docId);
+    const deleted = docs.delete(docId);
+    if (document) {
+      this.payloadIndexes.get(collectionId)!.remove(docId, document.metadata);
+      if (typeof document.metadata.text === 'string') {
+        this.keywordIndexes.get(collectionId)!.remove(docId, document.metadata.text);
+      }
+      const label = labels.release(docId);
+      if (label !== undefined) {
+        index.markDelete(label);
+      }
+      if (document.slot !== undefined) {
+        this.arenas.get(collectionId)!.release(document.slot);
+      }
+      // Recorded even before the first export completes, as deletions made while its base
+      // uploads belong in the delta segment after it. Snapshots drop the ones no export needs.
+      this.tombstones.get(collectionId)!.set(docId, timestamp);
+      collection.count--;
+      collection.updated = timestamp;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Record a new head of a collection's snapshot chain, forgetting deletions it covers
+   */
+  private applySnapshotChain(collectionId: string, chain: SnapshotChain): void {
+    const collection = this.collections.get(collectionId);
+    if (!collection) return;
+
+    collection.snapshotChain = chain;
+    const tombstones = this.tombstones.get(collectionId)!;
+    for (const [docId, deletedAt] of tombstones) {
+      if (deletedAt < chain.capturedAt) {
+        tombstones.delete(docId);
+      }
+    }
+  }
+
+  /**
+   * Build the in-memory form of a document: an arena slot for the raw vector, or its code when the collection is quantized
+   */
+  private toRecord(
+    collectionId: string,
+    document: { id: string; metadata: Record<string, any>; timestamp: number },
+    vector: number[]
+  ): DocumentRecord {
+    const quantizer = this.quantizers.get(collectionId);
+    const { id, metadata, timestamp } = document;
+
+    return quantizer?.isTrained()
+      ? { id, code: quantizer.encode(vector), norm: this.cosineNorm(collectionId, vector), metadata, timestamp }
+      : { id, slot: this.arenas.get(collectionId)!.allocate(vector), metadata, timestamp };
+  }
+
+  /**
+   * Norm to keep for a vector that will only be held in the index: hnswlib normalizes cosine vectors on insert
+   */
+  private cosineNorm(collectionId: string, vector: ArrayLike<number>): number | undefined {
+    if (this.collections.get(collectionId)!.metric !== 'cosine') {
+      return undefined;
+    }
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) {
+      sum += vector[i] * vector[i];
+    }
+    return Math.sqrt(sum);
+  }
+
+  /**
+   * Read a document's full-precision vector: a view into the arena, or the index's copy when only
+   * the code is kept in memory, scaled back to its original norm for cosine collections
+   */
+  private readVector(collectionId: string, document: DocumentRecord): ArrayLike<number> {
+    if (document.slot !== undefined) {
+      return this.arenas.get(collectionId)!.get(document.slot);
+    }
+    const point: number[] = this.indices.get(collectionId).getPoint(this.labels.get(collectionId)!.getLabel(document.id)!);
+    const norm = document.norm;
+    return norm === undefined ? point : point.map(value => value * norm);
+  }
+
+  /**
+   * Copy a document out of the engine for API responses and persistence
+   */
+  private toVectorDocument(collectionId: string, document: DocumentRecord): VectorDocument {
+    const { id, metadata, timestamp } = document;
+    return { id, vector: Array.from(this.readVector(collectionId, document)), metadata, timestamp };
+  }
+
+  /**
+   * Train a collection's quantizer on its current vectors and replace them with codes
+   */
+  private trainQuantizer(collectionId: string): void {
+    const quantizer = this.quantizers.get(collectionId)!;
+    const collection = this.collections.get(collectionId)!;
+    const docs = this.documents.get(collectionId)!;
+
+    const startTime = Date.now();
+    const samples = Array.from(docs.values())
+      .slice(0, collection.quantization!.trainingSize)
+      .map(doc => Array.from(this.readVector(collectionId, doc)));
+    quantizer.train(samples);
+
+    const arena = this.arenas.get(collectionId)!;
+    for (const { slot, ...doc } of docs.values()) {
+      const vector = Array.from(this.readVector(collectionId, { ...doc, slot }));
+      const code = quantizer.encode(vector);
+      if (slot !== undefined) {
+        arena.release(slot);
+      }
+      docs.set(doc.id, { ...doc, code, norm: this.cosineNorm(collectionId, vector) });
+    }
+
+    console.log(`🗜️ Trained ${collection.quantization!.type} quantizer for collection ${collectionId} on ${samples.length} vectors in ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Record an operation in the write-ahead log, snapshotting once the log grows large
+   */
+  private persist(operation: WalOperation): void {
+    if (!this.persistence) return;
+
+    this.persistence.append(operation);
+    if (this.persistence.getPendingOperations() >= config.persistence.snapshotEveryOps) {
+      this.snapshot();
+    }
+  }
+
+  /**
+   * Write a full snapshot of all collections to the data directory
+   */
+  snapshot(): void {
+    if (!this.persistence) return;
+
+    try {
+      this.writeSnapshot(this.persistence);
+    } catch (error) {
+      // The write-ahead log still holds every operation, so a failed snapshot loses nothing
+      console.error('Error writing snapshot:', error);
+    }
+  }
+
+  private writeSnapshot(persistence: PersistenceManager): void {
+    const startTime = Date.now();
+    // Only collections with an exported base, or one being exported, carry deletions into a delta segment
+    for (const collection of this.collections.values()) {
+      if (!collection.snapshotChain && !this.activeExports.has(collection.id)) {
+        this.tombstones.get(collection.id)!.clear();
+      }
+    }
+    const collections = Array.from(this.collections.values()).map(collection => ({
+      collection,
+      // Codes are rebuilt on restore, so only the raw vectors of unquantized documents are written
+      documents: Array.from(this.documents.get(collection.id)!.values(), ({ slot, code, ...document }): StoredDocument =>
+        slot !== undefined ? { ...document, vector: this.arenas.get(collection.id)!.copy(slot) } : document
+      ),
+      labels: this.labels.get(collection.id)!.toJSON(),
+      tombstones: Array.from(this.tombstones.get(collection.id)!),
+      index: this.indices.get(collection.id),
+    }));
+
+    persistence.writeSnapshot(collections, Array.from(this.deletedCollections));
+    console.log(`💾 Snapshot written: ${collections.length} collections in ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Stop background work and flush a final snapshot
+   */
+  shutdown(): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    if (this.deltaTimer) {
+      clearInterval(this.deltaTimer);
+      this.deltaTimer = null;
+    }
+    if (this.persistence && this.persistence.getPendingOperations() > 0) {
+      this.snapshot();
+    }
+  }
+
+  /**
+   * Create a new vector collection
+   */
+  async createCollection(
+    name: string, 
+    dimension: number = config.vector.dimension,
+    description: string = '',
+    isPublic: boolean = true,
+    allowDefaultName: boolean = false,
+    options: CollectionOptions = {}
+  ): Promise<string> {
+    // Prevent creating collections named "default" unless explicitly allowed
+    if (name.toLowerCase() === 'default' && !allowDefaultName) {
+      throw new Error('Cannot create collections named "default". Please choose a different name.');
+    }
+
+    const capacity = options.initialCapacity ?? config.vector.hnsw.initialCapacity;
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Initial capacity must be a positive integer, got ${capacity}`);
+    }
+
+    const metric = options.metric ?? DEFAULT_METRIC;
+    if (!isDistanceMetric(metric)) {
+      throw new Error(`Unsupported distance metric: ${metric}`);
+    }
+
+    let quantization: QuantizationConfig | undefined;
+    if (options.quantization && options.quantization.type !== 'none') {
+      const errors = validateQuantization(options.quantization, dimension);
+      if (errors.length > 0) {
+        throw new Error(`Invalid quantization: ${errors.join('; ')}`);
+      }
+      quantization = {
+        type: options.quantization.type,
+        subvectors: options.quantization.subvectors ?? defaultSubvectors(dimension),
+        trainingSize: options.quantization.trainingSize ?? config.vector.quantization.trainingSize,
+        rerankMultiplier: options.quantization.rerankMultiplier ?? config.vector.quantization.rerankMultiplier,
+      };
+    }
+    
+    const collectionId = uuidv4();
+    
+    // Store collection metadata locally
+    const collection: Collection = {
+      id: collectionId,
+      name,
+      dimension,
+      metric,
+      count: 0,
+      capacity,
+      quantization,
+      encryption: this.encryption?.createDataKey(),
+      created: Date.now(),
+      updated: Date.now(),
+    };
+
+    this.applyCreateCollection(collection);
+    this.persist({ op: 'createCollection', collection });
+
+    await this.registerCollectionOnChain(collection, description, isPublic);
+
+    console.log(`Created collection: ${name} (${collectionId})`);
+    return collectionId;
+  }
+
+  /**
+   * Create a collection on the blockchain if the contract service is configured.
+   * Failures are logged; the collection stays usable locally.
+   */
+  private async registerCollectionOnChain(collection: Collection, description: string, isPublic: boolean): Promise<boolean> {
+    const { id: collectionId, name, dimension, metric } = collection;
+
+    try {
+      if (this.vectorRegistryService.isConfigured()) {
+        console.log(`📋 Creating collection on blockchain: ${name} (${collectionId})`);
+        await this.vectorRegistryService.createCollection(
+          collectionId,
+          name,
+          description,
+          dimension,
+          isPublic
+        );
+        console.log(`✅ Collection created on blockchain: ${collectionId}`);
+      } else {
+        console.log(`⚠️ VectorRegistry not configured, collection created locally only`);
+        return false;
+      }
+    } catch (error) {
+      console.error('Error creating collection on blockchain:', error);
+      console.log('📝 Collection created locally, blockchain sync failed');
+      return false;
+    }
+
+    // Cosine is assumed when no metric is recorded, so only other metrics cost an extra transaction
+    if (metric !== DEFAULT_METRIC) {
+      this.pendingMetrics.set(collectionId, metric);
+      await this.recordPendingMetric(collectionId);
+    }
+    return true;
+  }
+
+  /**
+   * Record a collection's metric attribute on chain if an earlier attempt failed. A failure is
+   * logged and left pending, to be retried before the collection's next on-chain update.
+   */
+  private async recordPendingMetric(collectionId: string): Promise<void> {
+    const metric = this.pendingMetrics.get(collectionId);
+    if (!metric) {
+      return;
+    }
+
+    try {
+      await this.vectorRegistryService.setCollectionAttribute(collectionId, 'metric', metric);
+      this.pendingMetrics.delete(collectionId);
+      console.log(`✅ Recorded ${metric} metric on blockchain for ${collectionId}`);
+    } catch (error) {
+      console.error(`Error recording ${metric} metric on blockchain for ${collectionId}, will retry on its next update:`, error);
+    }
+  }
+
+  /**
+   * Export a collection to storage and record the new head of its snapshot chain in the VectorRegistry.
+   * A full export writes a base snapshot (config, HNSW graph, vectors and metadata); a delta export
+   * writes only the vectors upserted and deleted since the previous export, chained to it.
+   */
+  async exportCollection(collectionId: string, storageService: IStorageService, mode: ExportMode = 'auto'): Promise<CollectionExport> {
+    // Exports of one collection run one after another so each segment chains to the one before
+    const previous = this.activeExports.get(collectionId);
+    const run = (previous ? previous.catch(() => undefined) : Promise.resolve())
+      .then(() => this.runExport(collectionId, storageService, mode));
+    this.activeExports.set(collectionId, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.activeExports.get(collectionId) === run) {
+        this.activeExports.delete(collectionId);
+      }
+    }
+  }
+
+  /**
+   * Push a delta segment (or a compacted base) for every exported collection that changed since its last export
+   */
+  async exportPendingChanges(): Promise<CollectionExport[]> {
+    if (!this.storageService) return [];
+
+    const exports: CollectionExport[] = [];
+    for (const collection of Array.from(this.collections.values())) {
+      const chain = collection.snapshotChain;
+      if (!chain || !this.hasChangesSince(collection.id, chain.capturedAt)) continue;
+
+      try {
+        exports.push(await this.exportCollection(collection.id, this.storageService));
+      } catch (error) {
+        console.error(`Error exporting changes of collection ${collection.id}:`, error);
+      }
+    }
+    return exports;
+  }
+
+  private async runExport(collectionId: string, storageService: IStorageService, mode: ExportMode): Promise<CollectionExport> {
+    await this.ensureRehydrated(collectionId);
+    const collection = this.collections.get(collectionId);
+    if (!collection) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    const chain = collection.snapshotChain;
+    if (mode === 'full' || !chain) {
+      if (mode === 'delta') {
+        throw new Error(`Collection ${collectionId} has no base snapshot to append a delta to`);
+      }
+      return this.exportBase(collection, storageService);
+    }
+
+    const { upserts, deletes } = this.collectChanges(collectionId, chain.capturedAt);
+    if (upserts.length === 0 && deletes.length === 0) {
+      return {
+        collectionId,
+        kind: 'unchanged',
+        root: chain.headRoot,
+        baseRoot: chain.baseRoot,
+        sequence: chain.sequence,
+        upserts: 0,
+        deletes: 0,
+        size: 0,
+        checksum: chain.headChecksum,
+        vectorCount: collection.count,
+        uploadTxHash: null,
+        txHash: null,
+      };
+    }
+
+    // Compact once the chain is long or the changes rival the collection in size, so rehydration stays cheap
+    const { compactAfterDeltas, compactChangeRatio } = config.deltaSnapshots;
+    const compact = mode === 'auto' && (
+      chain.sequence >= compactAfterDeltas ||
+      upserts.length + deletes.length > compactChangeRatio * Math.max(collection.count, 1)
+    );
+
+    return compact
+      ? this.exportBase(collection, storageService)
+      : this.exportDelta(collection, chain, storageService);
+  }
+
+  private async exportBase(collection: Collection, storageService: IStorageService): Promise<CollectionExport> {
+    const collectionId = collection.id;
+    const basePath = await this.exportBasePath(collectionId);
+    const indexPath = `${basePath}.hnsw`;
+    const snapshotPath = `${basePath}.snapshot`;
+
+    try {
+      // The snapshot is written without yielding, so later writes all land in the next segment
+      const startTime = Date.now();
+      const capturedAt = startTime;
+      const vectorCount = this.documents.get(collectionId)!.size;
+      // The chain and data key belong to this node, so they are not part of the snapshot itself
+      const { snapshotChain, encryption, ...exported } = collection;
+
+      this.indices.get(collectionId).writeIndexSync(indexPath);
+      const { size, checksum } = writeCollectionSnapshot(
+        snapshotPath,
+        exported,
+        this.labels.get(collectionId)!.toJSON(),
+        indexPath,
+        vectorCount,
+        () => this.iterateVectors(collectionId)
+      );
+      console.log(`📦 Wrote snapshot of collection ${collectionId}: ${vectorCount} vectors, ${size} bytes in ${Date.now() - startTime}ms`);
+
+      const upload = await this.uploadSnapshotFile(snapshotPath, collectionId, storageService);
+      const txHash = await this.recordChainHead(collectionId, upload.root, vectorCount, checksum);
+      this.setSnapshotChain(collectionId, { baseRoot: upload.root, headRoot: upload.root, headChecksum: checksum, sequence: 0, capturedAt });
+
+      return {
+        collectionId,
+        kind: 'base',
+        root: upload.root,
+        baseRoot: upload.root,
+        sequence: 0,
+        upserts: vectorCount,
+        deletes: 0,
+        size,
+        checksum,
+        vectorCount,
+        uploadTxHash: upload.txHash ?? null,
+        txHash,
+      };
+    } finally {
+      await fs.remove(indexPath);
+      await fs.remove(snapshotPath);
+    }
+  }
+
+  private async exportDelta(
+    collection: Collection,
+    chain: SnapshotChain,
+    storageService: IStorageService
+  ): Promise<CollectionExport> {
+    const collectionId = collection.id;
+    const segmentPath = `${await this.exportBasePath(collectionId)}.delta`;
+
+    try {
+      // Changes are collected and written without yielding, so later writes all land in the next segment
+      const capturedAt = Date.now();
+      const { upserts, deletes } = this.collectChanges(collectionId, chain.capturedAt);
+      const sequence = chain.sequence + 1;
+      const { size, checksum } = writeDeltaSegment(
+        segmentPath,
+        {
+          collectionId,
+          dimension: collection.dimension,
+          baseRoot: chain.baseRoot,
+          previousRoot: chain.headRoot,
+          previousChecksum: chain.headChecksum,
+          sequence,
+          capturedAt,
+          deletes,
+        },
+        collection.dimension,
+        upserts.length,
+        () => upserts.map(doc => ({ id: doc.id, vector: this.readVector(collectionId, doc), metadata: doc.metadata, timestamp: doc.timestamp }))
+      );
+      console.log(`📦 Wrote delta segment ${sequence} of collection ${collectionId}: ${upserts.length} upserts, ${deletes.length} deletes, ${size} bytes`);
+
+      const upload = await this.uploadSnapshotFile(segmentPath, collectionId, storageService);
+      const txHash = await this.recordChainHead(collectionId, upload.root, collection.count, checksum);
+      this.setSnapshotChain(collectionId, { baseRoot: chain.baseRoot, headRoot: upload.root, headChecksum: checksum, sequence, capturedAt });
+
+      return {
+        collectionId,
+        kind: 'delta',
+        root: upload.root,
+        baseRoot: chain.baseRoot,
+        sequence,
+        upserts: upserts.length,
+        deletes: deletes.length,
+        size,
+        checksum,
+        vectorCount: collection.count,
+        uploadTxHash: upload.txHash ?? null,
+        txHash,
+      };
+    } finally {
+      await fs.remove(segmentPath);
+    }
+  }
+
+  private async exportBasePath(collectionId: string): Promise<string> {
+    const tempDir = path.join(config.storage.uploadPath, 'temp');
+    await fs.ensureDir(tempDir);
+    return path.join(tempDir, `collection_${collectionId}_${Date.now()}`);
+  }
+
+  private async uploadSnapshotFile(
+    filePath: string,
+    collectionId: string,
+    storageService: IStorageService
+  ): Promise<{ root: string; txHash?: string }> {
+    const options = { dataKey: this.getDataKey(collectionId) };
+
+    // Upload straight from disk when the backend supports it, so large snapshots are not buffered
+    return storageService.uploadFile
+      ? storageService.uploadFile(filePath, options)
+      : storageService.uploadData(await fs.readFile(filePath), path.basename(filePath), options);
+  }
+
+  /**
+   * Data key that encrypts a collection's uploads, or undefined when encryption is disabled.
+   * Collections created before encryption was enabled, or whose key was wrapped by a
+   * different master key, get a new key on first use.
+   */
+  getDataKey(collectionId: string): DataKey | undefined {
+    const collection = this.collections.get(collectionId);
+    if (!this.encryption || !collection) {
+      return undefined;
+    }
+
+    if (!collection.encryption || !this.encryption.canUnwrap(collection.encryption)) {
+      collection.encryption = this.encryption.createDataKey();
+      this.persist({ op: 'setDataKey', collectionId, dataKey: collection.encryption });
+      console.log(`🔐 Created data key ${collection.encryption.keyId} for collection ${collectionId}`);
+    }
+    return collection.encryption;
+  }
+
+  /**
+   * Point the VectorRegistry at the newest snapshot or segment; earlier ones are reached through its header
+   */
+  private async recordChainHead(collectionId: string, root: string, vectorCount: number, checksum: string): Promise<string | null> {
+    if (!this.vectorRegistryService.isConfigured()) {
+      return null;
+    }
+
+    await this.recordPendingMetric(collectionId);
+
+    try {
+      const txHash = await this.vectorRegistryService.updateCollection(collectionId, root, vectorCount, checksum);
+      console.log(`✅ Recorded snapshot root ${root} on blockchain for ${collectionId}`);
+      return txHash;
+    } catch (error) {
+      console.error('Error recording snapshot root on blockchain:', error);
+      return null;
+    }
+  }
+
+  private setSnapshotChain(collectionId: string, chain: SnapshotChain): void {
+    this.applySnapshotChain(collectionId, chain);
+    this.persist({ op: 'snapshotChain', collectionId, chain });
+  }
+
+  /**
+   * Vectors written and ids deleted at or after a point in time
+   */
+  private collectChanges(collectionId: string, since: number): { upserts: DocumentRecord[]; deletes: string[] } {
+    const upserts = Array.from(this.documents.get(collectionId)!.values()).filter(doc => doc.timestamp >= since);
+    const deletes = Array.from(this.tombstones.get(collectionId)!)
+      .filter(([, deletedAt]) => deletedAt >= since)
+      .map(([docId]) => docId);
+    return { upserts, deletes };
+  }
+
+  private hasChangesSince(collectionId: string, since: number): boolean {
+    for (const doc of this.documents.get(collectionId)!.values()) {
+      if (doc.timestamp >= since) return true;
+    }
+    for (const deletedAt of this.tombstones.get(collectionId)!.values()) {
+      if (deletedAt >= since) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rebuild a collection from a snapshot written by exportCollection, loading its HNSW graph
+   * directly instead of re-inserting every vector
+   */
+  async importCollection(data: Buffer, options: CollectionImportOptions = {}): Promise<Collection> {
+    const { header, index: indexBytes, documents } = readCollectionSnapshot(data);
+    const collectionId = options.collectionId ?? header.collection.id;
+
+    if (this.collections.has(collectionId)) {
+      if (!options.replaceEmpty || this.documents.get(collectionId)!.size > 0) {
+        throw new Error(`Collection ${collectionId} already exists`);
+      }
+      this.removeCollectionState(collectionId);
+    }
+
+    const { snapshotChain, encryption, ...imported } = header.collection;
+    const collection: Collection = {
+      ...imported,
+      id: collectionId,
+      name: options.name ?? header.collection.name,
+      updated: Date.now(),
+    };
+
+    const tempDir = path.join(config.storage.uploadPath, 'temp');
+    await fs.ensureDir(tempDir);
+    const indexPath = path.join(tempDir, `import_${collectionId}_${Date.now()}.hnsw`);
+
+    const index = new hnswlib.HierarchicalNSW(collection.metric, collection.dimension);
+    try {
+      await fs.writeFile(indexPath, indexBytes);
+      index.readIndexSync(indexPath, true);
+    } finally {
+      await fs.remove(indexPath);
+    }
+
+    this.deletedCollections.delete(collectionId);
+    this.installCollection(collection, index, LabelAllocator.fromJSON(header.labels), documents);
+
+    if (this.persistence) {
+      // One snapshot holds the whole import, where the log would need an entry per vector.
+      // Nothing was logged, so the import is undone if the snapshot cannot be written.
+      try {
+        this.writeSnapshot(this.persistence);
+      } catch (error) {
+        this.removeCollectionState(collectionId);
+        throw new Error(`Failed to persist imported collection ${collectionId}: ${error}`);
+      }
+    }
+
+    if (options.sourceRoot) {
+      await this.registerImportedCollection(collection, options.sourceRoot, snapshotChecksum(data));
+    }
+
+    console.log(`📥 Imported collection ${collection.name} (${collectionId}) with ${collection.count} vectors`);
+    return collection;
+  }
+
+  /**
+   * Download the snapshot chain ending at a storage root, then import its base snapshot and
+   * replay its delta segments in order
+   */
+  async importFromStorage(rootHash: string, storageService: IStorageService, options: CollectionImportOptions = {}): Promise<Collection> {
+    const head = await storageService.downloadData(rootHash);
+    const chain = await this.resolveSnapshotChain(head, storageService);
+    const collection = await this.loadSnapshotChain(rootHash, head, chain, options);
+
+    if (options.sourceRoot) {
+      await this.registerImportedCollection(collection, options.sourceRoot, snapshotChecksum(head));
+    }
+    return collection;
+  }
+
+  /**
+   * Follow delta segments back to their base snapshot, checking each link against the
+   * checksum recorded in the segment after it. Segments are returned oldest first.
+   */
+  private async resolveSnapshotChain(
+    head: Buffer,
+    storageService: IStorageService
+  ): Promise<{ base: Buffer; segments: DeltaSegmentContents[]; bytes: number }> {
+    const segments: DeltaSegmentContents[] = [];
+    let data = head;
+    let bytes = head.length;
+
+    while (isDeltaSegment(data)) {
+      const segment = readDeltaSegment(data);
+      segments.unshift(segment);
+      if (segments.length > MAX_SNAPSHOT_CHAIN_LENGTH) {
+        throw new Error(`Snapshot chain is longer than ${MAX_SNAPSHOT_CHAIN_LENGTH} segments`);
+      }
+
+      const { previousRoot, previousChecksum, sequence } = segment.header;
+      data = await storageService.downloadData(previousRoot);
+      bytes += data.length;
+      if (snapshotChecksum(data) !== previousChecksum) {
+        throw new Error(`Snapshot chain is broken: ${previousRoot} does not match the checksum recorded in delta segment ${sequence}`);
+      }
+    }
+
+    return { base: data, segments, bytes };
+  }
+
+  private async loadSnapshotChain(
+    headRoot: string,
+    head: Buffer,
+    chain: { base: Buffer; segments: DeltaSegmentContents[] },
+    options: CollectionImportOptions
+  ): Promise<Collection> {
+    // Local writes from here on are newer than anything in the chain and belong in the next segment
+    const capturedAt = Date.now();
+    const { sourceRoot, ...importOptions } = options;
+    const collection = await this.importCollection(chain.base, importOptions);
+
+    for (const segment of chain.segments) {
+      this.applyDeltaSegment(collection.id, segment);
+    }
+
+    const last = chain.segments[chain.segments.length - 1];
+    this.setSnapshotChain(collection.id, {
+      baseRoot: last ? last.header.baseRoot : headRoot,
+      headRoot,
+      headChecksum: snapshotChecksum(head),
+      sequence: last ? last.header.sequence : 0,
+      capturedAt,
+    });
+
+    if (chain.segments.length > 0) {
+      console.log(`📥 Applied ${chain.segments.length} delta segments to collection ${collection.id}, now ${collection.count} vectors`);
+    }
+    return collection;
+  }
+
+  /**
+   * Apply a delta segment's deletions, then its upserts, logging them as ordinary operations
+   */
+  private applyDeltaSegment(collectionId: string, { header, upserts }: DeltaSegmentContents): void {
+    const collection = this.collections.get(collectionId)!;
+    if (header.dimension !== collection.dimension) {
+      throw new Error(`Delta segment ${header.sequence} has dimension ${header.dimension}, collection has ${collection.dimension}`);
+    }
+
+    const timestamp = Date.now();
+    const deleted = header.deletes.filter(docId => this.applyDelete(collectionId, docId, timestamp));
+    if (deleted.length > 0) {
+      this.persist({ op: 'deleteMany', collectionId, docIds: deleted, timestamp });
+    }
+
+    const docs = this.documents.get(collectionId)!;
+    for (const document of upserts) {
+      if (docs.has(document.id)) {
+        this.applyUpdate(collectionId, document);
+        this.persist({ op: 'update', collectionId, document });
+      } else {
+        this.applyInsert(collectionId, document as VectorDocument);
+        this.persist({ op: 'insert', collectionId, document: document as VectorDocument });
+      }
+    }
+  }
+
+  /**
+   * Register an imported collection on chain when it is new there, pointing it at the storage root it came from
+   */
+  private async registerImportedCollection(collection: Collection, sourceRoot: string, checksum: string): Promise<void> {
+    try {
+      if (this.vectorRegistryService.isConfigured() && !(await this.vectorRegistryService.getCollection(collection.id))) {
+        const registered = await this.registerCollectionOnChain(collection, '', true);
+        if (registered) {
+          await this.vectorRegistryService.updateCollection(collection.id, sourceRoot, collection.count, checksum);
+        }
+      }
+    } catch (error) {
+      console.error('Error registering imported collection on blockchain:', error);
+    }
+  }
+
+  /**
+   * Rebuild collections recorded on the VectorRegistry from their storage roots.
+   * Collections are registered for rehydration and, in startup mode, downloaded one at a
+   * time in the background; in lazy mode each one is loaded on its first search or write.
+   */
+  async rehydrateFromChain(): Promise<void> {
+    if (config.rehydration.mode === 'off' || !this.storageService || !this.vectorRegistryService.isConfigured()) {
+      return;
+    }
+
+    // Syncing the collection list registers every collection with a storage root but no local vectors
+    await this.listCollections();
+
+    const pending = Array.from(this.rehydrations.values()).filter(progress => progress.state === 'pending');
+    console.log(`💧 ${pending.length} collections to rehydrate from 0G Storage (${config.rehydration.mode} mode)`);
+
+    if (config.rehydration.mode === 'startup') {
+      for (const { collectionId } of pending) {
+        await this.ensureRehydrated(collectionId);
+      }
+    }
+  }
+
+  /**
+   * Download, verify and load a collection's snapshot from its on-chain storage root now,
+   * retrying one that failed earlier
+   */
+  async rehydrateCollection(collectionId: string): Promise<RehydrationProgress> {
+    if (!this.storageService || !this.vectorRegistryService.isConfigured()) {
+      throw new Error('Rehydration requires both storage and the VectorRegistry to be configured');
+    }
 
-  constructor() {
-    this.vectorRegistryService = new VectorRegistryService();
-    this.storageOracleService = new StorageOracleService();
-    this.initializeEngine();
+    const onChain = await this.vectorRegistryService.getCollection(collectionId);
+    if (!onChain || !onChain.storageRoot) {
+      throw new Error(`Collection ${collectionId} has no storage root on chain`);
+    }
+
+    this.trackRehydration(collectionId, onChain);
+    await this.ensureRehydrated(collectionId);
+    return this.rehydrations.get(collectionId)!;
   }
 
-  private initializeEngine(): void {
-    console.log('Initializing VectorEngine with HNSW indexing...');
-    console.log(`Vector dimension: ${config.vector.dimension}`);
-    console.log(`HNSW parameters: M=${config.vector.hnsw.m}, efConstruction=${config.vector.hnsw.efConstruction}`);
+  /**
+   * Progress of every collection rehydrated (or waiting to be) from its storage root
+   */
+  getRehydrationStatus(): RehydrationProgress[] {
+    return Array.from(this.rehydrations.values());
+  }
+
+  private trackRehydration(collectionId: string, onChain: CollectionInfo): void {
+    const current = this.rehydrations.get(collectionId);
+    if (current && current.state !== 'failed' && current.storageRoot === onChain.storageRoot) {
+      return;
+    }
+
+    this.rehydrations.set(collectionId, {
+      collectionId,
+      name: onChain.name,
+      storageRoot: onChain.storageRoot,
+      state: 'pending',
+      vectorCount: onChain.vectorCount,
+    });
   }
 
   /**
-   * Create a new vector collection
+   * Wait for a pending rehydration to finish, starting it if needed. Failures are recorded in
+   * the progress report rather than thrown, so the collection stays usable with its local data.
    */
-  async createCollection(
-    name: string, 
-    dimension: number = config.vector.dimension,
-    description: string = '',
-    isPublic: boolean = true,
-    allowDefaultName: boolean = false
-  ): Promise<string> {
-    // Prevent creating collections named "default" unless explicitly allowed
-    if (name.toLowerCase() === 'default' && !allowDefaultName) {
-      throw new Error('Cannot create collections named "default". Please choose a different name.');
+  private async ensureRehydrated(collectionId: string): Promise<void> {
+    const active = this.activeRehydrations.get(collectionId);
+    if (active) {
+      return active;
     }
-    
-    const collectionId = uuidv4();
-    
-    // Initialize HNSW index
-    const index = new hnswlib.HierarchicalNSW('cosine', dimension);
-    index.initIndex(10000, config.vector.hnsw.m, config.vector.hnsw.efConstruction);
-    
-    // Store collection metadata locally
-    const collection: Collection = {
-      id: collectionId,
-      name,
-      dimension,
-      count: 0,
-      created: Date.now(),
-      updated: Date.now(),
-    };
 
-    this.indices.set(collectionId, index);
-    this.documents.set(collectionId, new Map());
-    this.collections.set(collectionId, collection);
+    const progress = this.rehydrations.get(collectionId);
+    if (!progress || progress.state !== 'pending') {
+      return;
+    }
+
+    const run = this.runRehydration(progress).finally(() => this.activeRehydrations.delete(collectionId));
+    this.activeRehydrations.set(collectionId, run);
+    return run;
+  }
+
+  private async runRehydration(progress: RehydrationProgress): Promise<void> {
+    const { collectionId, storageRoot } = progress;
+    progress.startedAt = Date.now();
 
-    // Create collection on blockchain if contract service is configured
     try {
-      if (this.vectorRegistryService.isConfigured()) {
-        console.log(`📋 Creating collection on blockchain: ${name} (${collectionId})`);
-        await this.vectorRegistryService.createCollection(
-          collectionId,
-          name,
-          description,
-          dimension,
-          isPublic
-        );
-        console.log(`✅ Collection created on blockchain: ${collectionId}`);
-      } else {
-        console.log(`⚠️ VectorRegistry not configured, collection created locally only`);
+      // Vectors written locally since boot take precedence over the exported snapshot
+      if ((this.documents.get(collectionId)?.size ?? 0) > 0) {
+        progress.state = 'skipped';
+        console.log(`💧 Skipping rehydration of ${collectionId}: collection already has local vectors`);
+        return;
       }
-    } catch (error) {
-      console.error('Error creating collection on blockchain:', error);
-      console.log('📝 Collection created locally, blockchain sync failed');
+
+      progress.state = 'downloading';
+      console.log(`💧 Rehydrating collection ${progress.name} (${collectionId}) from ${storageRoot}...`);
+      const head = await this.storageService!.downloadData(storageRoot);
+      progress.bytes = head.length;
+
+      progress.state = 'verifying';
+      const onChain = await this.vectorRegistryService.getCollection(collectionId);
+      const checksum = snapshotChecksum(head);
+      if (!onChain || onChain.metadataHash.toLowerCase() !== checksum) {
+        throw new Error(`Snapshot checksum ${checksum} does not match on-chain metadata hash ${onChain?.metadataHash}`);
+      }
+      // The head may be a delta segment; its predecessors are verified against the checksums it records
+      const chain = await this.resolveSnapshotChain(head, this.storageService!);
+      progress.bytes = chain.bytes;
+
+      progress.state = 'loading';
+      const collection = await this.loadSnapshotChain(storageRoot, head, chain, { collectionId, name: progress.name, replaceEmpty: true });
+
+      progress.state = 'ready';
+      progress.vectorCount = collection.count;
+      console.log(`✅ Rehydrated collection ${collectionId}: ${collection.count} vectors in ${Date.now() - progress.startedAt}ms`);
+    } catch (error: any) {
+      progress.state = 'failed';
+      progress.error = error.message || String(error);
+      console.error(`❌ Failed to rehydrate collection ${collectionId}:`, error);
+    } finally {
+      progress.finishedAt = Date.now();
     }
+  }
 
-    console.log(`Created collection: ${name} (${collectionId})`);
-    return collectionId;
+  private *iterateVectors(collectionId: string): Iterable<{ id: string; vector: ArrayLike<number>; metadata: Record<string, any>; timestamp: number }> {
+    for (const doc of this.documents.get(collectionId)!.values()) {
+      yield { id: doc.id, vector: this.readVector(collectionId, doc), metadata: doc.metadata, timestamp: doc.timestamp };
+    }
   }
 
   /**
@@ -137,24 +1447,26 @@ export class VectorEngine {
             
             if (!existingCollection) {
               // Create new collection from blockchain
+              const recordedMetric = await this.vectorRegistryService.getCollectionAttribute(collectionId, 'metric');
               const localCollection: Collection = {
                 id: collectionId,
                 name: blockchainCollection.name,
                 dimension: blockchainCollection.dimension,
+                metric: isDistanceMetric(recordedMetric) ? recordedMetric : DEFAULT_METRIC,
                 count: blockchainCollection.vectorCount,
+                capacity: Math.max(config.vector.hnsw.initialCapacity, blockchainCollection.vectorCount),
                 created: blockchainCollection.createdAt * 1000, // Convert to milliseconds
                 updated: blockchainCollection.updatedAt * 1000,
               };
               
-              // Initialize HNSW index for this collection
-              const index = new hnswlib.HierarchicalNSW('cosine', blockchainCollection.dimension);
-              index.initIndex(10000, config.vector.hnsw.m, config.vector.hnsw.efConstruction);
-              
-              this.indices.set(collectionId, index);
-              this.documents.set(collectionId, new Map());
-              this.collections.set(collectionId, localCollection);
+              this.applyCreateCollection(localCollection);
+              this.persist({ op: 'createCollection', collection: localCollection });
               
               console.log(`📥 Synced new collection from blockchain: ${blockchainCollection.name} (${collectionId})`);
+
+              if (blockchainCollection.storageRoot) {
+                this.trackRehydration(collectionId, blockchainCollection);
+              }
             } else {
               // Update existing collection with blockchain data (especially vectorCount)
               // Use the maximum of local count and blockchain count to handle sync issues
@@ -167,10 +1479,13 @@ export class VectorEngine {
               existingCollection.name = blockchainCollection.name; // Update name in case it changed
               existingCollection.updated = blockchainCollection.updatedAt * 1000;
               
-              // If blockchain count is higher, it means vectors were added but lost on restart
-              // This is expected behavior - vectors are in-memory only
+              // If blockchain count is higher, vectors were added on another node or before the data directory was reset
               if (blockchainVectorCount > localVectorCount) {
-                console.log(`📊 Collection ${collectionId}: Blockchain shows ${blockchainVectorCount} vectors, but local has ${localVectorCount} (vectors lost on restart - need to re-upload)`);
+                if (localVectorCount === 0 && blockchainCollection.storageRoot) {
+                  this.trackRehydration(collectionId, blockchainCollection);
+                } else {
+                  console.log(`📊 Collection ${collectionId}: Blockchain shows ${blockchainVectorCount} vectors, but local has ${localVectorCount} (not in local data directory - need to re-upload)`);
+                }
               }
             }
           }
@@ -193,6 +1508,7 @@ export class VectorEngine {
     vector: number[],
     metadata: Record<string, any> = {}
   ): Promise<string> {
+    await this.ensureRehydrated(collectionId);
     const index = this.indices.get(collectionId);
     const docs = this.documents.get(collectionId);
     const collection = this.collections.get(collectionId);
@@ -213,15 +1529,8 @@ export class VectorEngine {
       timestamp: Date.now(),
     };
 
-    // Add to HNSW index
-    index.addPoint(vector, collection.count);
-    
-    // Store document
-    docs.set(docId, document);
-    
-    // Update collection stats
-    collection.count++;
-    collection.updated = Date.now();
+    this.applyInsert(collectionId, document);
+    this.persist({ op: 'insert', collectionId, document });
 
     console.log(`Inserted vector ${docId} into collection ${collectionId}`);
     return docId;
@@ -244,6 +1553,95 @@ export class VectorEngine {
     return ids;
   }
 
+  /**
+   * Insert a vector under a caller-supplied id, or replace the vector and merge the metadata
+   * of an existing one. The HNSW point is updated in place so the label stays stable.
+   */
+  async upsertVector(
+    collectionId: string,
+    docId: string,
+    vector?: number[],
+    metadata: Record<string, any> = {}
+  ): Promise<UpsertResult> {
+    await this.ensureRehydrated(collectionId);
+    const docs = this.documents.get(collectionId);
+    const collection = this.collections.get(collectionId);
+
+    if (!docs || !collection) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    if (!docId) {
+      throw new Error('Vector id is required for upsert');
+    }
+
+    if (vector && vector.length !== collection.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match collection dimension ${collection.dimension}`);
+    }
+
+    const existing = docs.get(docId);
+
+    if (!existing) {
+      if (!vector) {
+        throw new Error(`Vector ${docId} does not exist, a vector is required to create it`);
+      }
+
+      const document: VectorDocument = { id: docId, vector, metadata, timestamp: Date.now() };
+      this.applyInsert(collectionId, document);
+      this.persist({ op: 'insert', collectionId, document });
+      console.log(`Inserted vector ${docId} into collection ${collectionId}`);
+      return { id: docId, created: true };
+    }
+
+    const document: StoredDocument = {
+      id: docId,
+      vector,
+      metadata: mergeMetadata(existing.metadata, metadata),
+      timestamp: Date.now(),
+    };
+    this.applyUpdate(collectionId, document);
+    this.persist({ op: 'update', collectionId, document });
+    console.log(`Updated vector ${docId} in collection ${collectionId}`);
+    return { id: docId, created: false };
+  }
+
+  /**
+   * Batch upsert vectors with caller-supplied ids
+   */
+  async upsertVectors(collectionId: string, items: UpsertItem[]): Promise<UpsertResult[]> {
+    const results: UpsertResult[] = [];
+
+    for (const { id, vector, metadata } of items) {
+      results.push(await this.upsertVector(collectionId, id, vector, metadata));
+    }
+
+    return results;
+  }
+
+  /**
+   * Merge a metadata patch into an existing vector without touching the index.
+   * Keys set to null are removed, following JSON merge patch semantics.
+   */
+  async updateMetadata(
+    collectionId: string,
+    docId: string,
+    patch: Record<string, any>
+  ): Promise<VectorDocument | null> {
+    await this.ensureRehydrated(collectionId);
+    const existing = this.documents.get(collectionId)?.get(docId);
+    if (!existing) return null;
+
+    const document: StoredDocument = {
+      id: docId,
+      metadata: mergeMetadata(existing.metadata, patch),
+      timestamp: Date.now(),
+    };
+    this.applyUpdate(collectionId, document);
+    this.persist({ op: 'update', collectionId, document });
+    console.log(`Updated metadata of vector ${docId} in collection ${collectionId}`);
+    return this.getVector(collectionId, docId);
+  }
+
   /**
    * Search for similar vectors
    */
@@ -251,13 +1649,15 @@ export class VectorEngine {
     collectionId: string,
     queryVector: number[],
     k: number = 10,
-    filter?: (metadata: Record<string, any>) => boolean
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
+    await this.ensureRehydrated(collectionId);
     const index = this.indices.get(collectionId);
     const docs = this.documents.get(collectionId);
+    const labels = this.labels.get(collectionId);
     const collection = this.collections.get(collectionId);
 
-    if (!index || !docs || !collection) {
+    if (!index || !docs || !labels || !collection) {
       throw new Error(`Collection ${collectionId} not found`);
     }
 
@@ -265,83 +1665,266 @@ export class VectorEngine {
       throw new Error(`Query vector dimension ${queryVector.length} does not match collection dimension ${collection.dimension}`);
     }
 
-    if (collection.count === 0) {
+    if (docs.size === 0) {
       return [];
     }
 
+    const matches = filter ? compileFilter(filter) : undefined;
+    const limit = Math.min(k, docs.size);
+
+    if (!matches) {
+      return this.hnswSearch(collectionId, queryVector, limit, Math.max(config.vector.hnsw.efSearch, k));
+    }
+
+    // Pre-filter when the payload index narrows the filter to a small candidate set
+    const candidates = this.payloadIndexes.get(collectionId)!.estimateCandidates(filter!);
+    if (candidates && candidates.size <= config.vector.filteredSearch.bruteForceThreshold) {
+      const candidateDocs = Array.from(candidates, id => docs.get(id)!);
+      return this.bruteForceSearch(collectionId, candidateDocs, queryVector, limit, matches);
+    }
+
+    // Otherwise filter during HNSW traversal, widening ef until enough matches are found
+    const labelFilter = (label: number) => {
+      const docId = labels.getId(label);
+      return docId !== undefined && matches(docs.get(docId)!.metadata);
+    };
+    const maxEf = Math.min(config.vector.filteredSearch.maxEf, index.getCurrentCount());
+
+    for (let ef = Math.max(config.vector.hnsw.efSearch, k); ; ef *= 2) {
+      const results = this.hnswSearch(collectionId, queryVector, limit, ef, labelFilter);
+      if (results.length >= limit) {
+        return results;
+      }
+      if (ef >= maxEf) break;
+    }
+
+    // The graph could not surface k matches (very selective filter or disconnected region), so scan everything
+    return this.bruteForceSearch(collectionId, Array.from(docs.values()), queryVector, limit, matches);
+  }
+
+  /**
+   * Search chunk text with BM25 keyword scoring
+   */
+  async keywordSearch(
+    collectionId: string,
+    queryText: string,
+    k: number = 10,
+    filter?: MetadataFilter
+  ): Promise<SearchResult[]> {
+    await this.ensureRehydrated(collectionId);
+    const docs = this.documents.get(collectionId);
+    const keywordIndex = this.keywordIndexes.get(collectionId);
+
+    if (!docs || !keywordIndex) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    const matches = filter ? compileFilter(filter) : undefined;
+    const keywordMatches = keywordIndex.search(
+      queryText,
+      k,
+      matches ? docId => matches(docs.get(docId)!.metadata) : undefined
+    );
+
+    return keywordMatches.map(({ docId, score }) => ({
+      id: docId,
+      score,
+      metadata: docs.get(docId)!.metadata,
+      keywordScore: score,
+    }));
+  }
+
+  /**
+   * Combine vector similarity and BM25 keyword rankings
+   */
+  async hybridSearch(
+    collectionId: string,
+    queryVector: number[],
+    queryText: string,
+    k: number = 10,
+    filter?: MetadataFilter,
+    options: HybridOptions = {}
+  ): Promise<SearchResult[]> {
+    await this.ensureRehydrated(collectionId);
+    const docs = this.documents.get(collectionId);
+    if (!docs) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    const candidates = k * HYBRID_CANDIDATE_MULTIPLIER;
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.searchVectors(collectionId, queryVector, candidates, filter),
+      this.keywordSearch(collectionId, queryText, candidates, filter),
+    ]);
+
+    return fuseRankings(vectorResults, keywordResults, options)
+      .slice(0, k)
+      .map(item => ({
+        id: item.id,
+        score: item.score,
+        metadata: docs.get(item.id)!.metadata,
+        vectorScore: item.vectorScore,
+        keywordScore: item.keywordScore,
+      }));
+  }
+
+  /**
+   * Approximate nearest neighbour search over the HNSW index. Distances come from the index's
+   * full-precision vectors, so quantization codes play no part here.
+   */
+  private hnswSearch(
+    collectionId: string,
+    queryVector: number[],
+    k: number,
+    ef: number,
+    labelFilter?: (label: number) => boolean
+  ): SearchResult[] {
+    const index = this.indices.get(collectionId);
+    const docs = this.documents.get(collectionId)!;
+    const labels = this.labels.get(collectionId)!;
+    const collection = this.collections.get(collectionId)!;
+
     // Set search parameters (if method exists)
     try {
-      index.setEf(Math.max(config.vector.hnsw.efSearch, k));
+      index.setEf(ef);
     } catch (e) {
       // Method might not exist in this version
     }
 
-    // Perform HNSW search
-    const result = index.searchKnn(queryVector, k * 2); // Get more results for filtering
-
+    // Deleted labels are excluded by the index
+    const result = index.searchKnn(queryVector, k, labelFilter);
     const searchResults: SearchResult[] = [];
-    const docsArray = Array.from(docs.values());
-
-    for (let i = 0; i < result.neighbors.length && searchResults.length < k; i++) {
-      const neighborIndex = result.neighbors[i];
-      const score = 1 - result.distances[i]; // Convert distance to similarity score
-      
-      if (neighborIndex < docsArray.length) {
-        const doc = docsArray[neighborIndex];
-        
-        // Apply metadata filter if provided
-        if (!filter || filter(doc.metadata)) {
-          searchResults.push({
-            id: doc.id,
-            score,
-            metadata: doc.metadata,
-          });
-        }
+
+    for (let i = 0; i < result.neighbors.length; i++) {
+      const docId = labels.getId(result.neighbors[i]);
+      const doc = docId ? docs.get(docId) : undefined;
+
+      if (doc) {
+        searchResults.push({
+          id: doc.id,
+          score: distanceToScore(collection.metric, result.distances[i]),
+          metadata: doc.metadata,
+        });
       }
     }
 
     return searchResults;
   }
 
+  /**
+   * Exhaustive search over a set of documents. Quantized documents are ranked by their codes
+   * and the best candidates re-scored at full precision.
+   */
+  private bruteForceSearch(
+    collectionId: string,
+    documents: DocumentRecord[],
+    queryVector: number[],
+    k: number,
+    matches: MetadataPredicate
+  ): SearchResult[] {
+    const collection = this.collections.get(collectionId)!;
+    const metric = collection.metric;
+    const quantizer = this.quantizers.get(collectionId);
+    const approximateDistance = quantizer?.isTrained() ? quantizer.distanceFunction(queryVector) : null;
+
+    let ranked = documents
+      .filter(doc => matches(doc.metadata))
+      .map(doc => ({
+        doc,
+        distance: doc.code && approximateDistance
+          ? approximateDistance(doc.code)
+          : computeDistance(metric, queryVector, this.readVector(collectionId, doc)),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    if (approximateDistance) {
+      ranked = ranked
+        .slice(0, Math.ceil(k * collection.quantization!.rerankMultiplier))
+        .map(({ doc }) => ({ doc, distance: computeDistance(metric, queryVector, this.readVector(collectionId, doc)) }))
+        .sort((a, b) => a.distance - b.distance);
+    }
+
+    return ranked
+      .slice(0, k)
+      .map(({ doc, distance }) => ({
+        id: doc.id,
+        score: distanceToScore(metric, distance),
+        metadata: doc.metadata,
+      }));
+  }
+
   /**
    * Get a specific vector document
    */
   getVector(collectionId: string, docId: string): VectorDocument | null {
-    const docs = this.documents.get(collectionId);
-    if (!docs) return null;
-    return docs.get(docId) || null;
+    const doc = this.documents.get(collectionId)?.get(docId);
+    return doc ? this.toVectorDocument(collectionId, doc) : null;
   }
 
   /**
    * Delete a vector document
    */
   async deleteVector(collectionId: string, docId: string): Promise<boolean> {
-    const docs = this.documents.get(collectionId);
-    const collection = this.collections.get(collectionId);
-
-    if (!docs || !collection) return false;
-
-    const deleted = docs.delete(docId);
+    await this.ensureRehydrated(collectionId);
+    const timestamp = Date.now();
+    const deleted = this.applyDelete(collectionId, docId, timestamp);
     if (deleted) {
-      collection.count--;
-      collection.updated = Date.now();
+      this.persist({ op: 'delete', collectionId, docId, timestamp });
       console.log(`Deleted vector ${docId} from collection ${collectionId}`);
     }
 
     return deleted;
   }
 
+  /**
+   * Delete vectors selected by id list and/or metadata filter as one logged operation.
+   * With dryRun the matching vectors are only counted.
+   */
+  async deleteVectors(
+    collectionId: string,
+    selector: BulkDeleteSelector,
+    dryRun: boolean = false
+  ): Promise<BulkDeleteResult> {
+    await this.ensureRehydrated(collectionId);
+    const docs = this.documents.get(collectionId);
+    if (!docs) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    if (!selector.ids && !selector.filter) {
+      throw new Error('Either ids or filter is required to select vectors');
+    }
+
+    let selected = selector.ids
+      ? Array.from(new Set(selector.ids)).filter(id => docs.has(id))
+      : this.matchDocuments(collectionId, selector.filter!).map(doc => doc.id);
+
+    // When both are given, only listed ids that also match the filter are removed
+    if (selector.ids && selector.filter) {
+      const matches = compileFilter(selector.filter);
+      selected = selected.filter(id => matches(docs.get(id)!.metadata));
+    }
+
+    if (dryRun || selected.length === 0) {
+      return { matched: selected.length, deleted: 0, ids: selected };
+    }
+
+    const timestamp = Date.now();
+    selected.forEach(docId => this.applyDelete(collectionId, docId, timestamp));
+    this.persist({ op: 'deleteMany', collectionId, docIds: selected, timestamp });
+
+    console.log(`🗑️ Deleted ${selected.length} vectors from collection ${collectionId}`);
+    return { matched: selected.length, deleted: selected.length, ids: selected };
+  }
+
   /**
    * Delete an entire collection
    */
   async deleteCollection(collectionId: string): Promise<boolean> {
-    const deleted = this.collections.delete(collectionId) &&
-                   this.indices.delete(collectionId) &&
-                   this.documents.delete(collectionId);
+    const deleted = this.applyDeleteCollection(collectionId);
 
     if (deleted) {
-      // Mark as deleted to prevent re-syncing from blockchain
-      this.deletedCollections.add(collectionId);
+      this.persist({ op: 'deleteCollection', collectionId });
       console.log(`🗑️ Deleted collection ${collectionId} (marked to prevent re-sync)`);
     }
 
@@ -362,7 +1945,94 @@ export class VectorEngine {
     }
 
     const allVectors = Array.from(docs.values());
-    return allVectors.slice(offset, offset + limit);
+    return allVectors.slice(offset, offset + limit).map(doc => this.toVectorDocument(collectionId, doc));
+  }
+
+  /**
+   * Get all vectors in a collection whose metadata matches a filter
+   */
+  findVectors(collectionId: string, filter: MetadataFilter): VectorDocument[] {
+    return this.matchDocuments(collectionId, filter).map(doc => this.toVectorDocument(collectionId, doc));
+  }
+
+  private matchDocuments(collectionId: string, filter: MetadataFilter): DocumentRecord[] {
+    const docs = this.documents.get(collectionId);
+    if (!docs) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    const matches = compileFilter(filter);
+    const candidates = this.payloadIndexes.get(collectionId)!.estimateCandidates(filter);
+    const pool = candidates ? Array.from(candidates, id => docs.get(id)!) : Array.from(docs.values());
+
+    return pool.filter(doc => matches(doc.metadata));
+  }
+
+  /**
+   * List the source documents in a collection, grouped by the documentId stored on each chunk
+   */
+  listDocuments(collectionId: string): DocumentSummary[] {
+    const docs = this.documents.get(collectionId);
+    if (!docs) {
+      throw new Error(`Collection ${collectionId} not found`);
+    }
+
+    const summaries = new Map<string, DocumentSummary>();
+    for (const doc of docs.values()) {
+      const documentId = doc.metadata.documentId;
+      if (typeof documentId !== 'string') continue;
+
+      const summary = summaries.get(documentId);
+      if (summary) {
+        summary.chunkCount++;
+        summary.created = Math.min(summary.created, doc.timestamp);
+        summary.updated = Math.max(summary.updated, doc.timestamp);
+      } else {
+        summaries.set(documentId, {
+          documentId,
+          filename: doc.metadata.filename,
+          contentHash: doc.metadata.contentHash,
+          chunkCount: 1,
+          created: doc.timestamp,
+          updated: doc.timestamp,
+        });
+      }
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  /**
+   * Delete every chunk belonging to a source document, returning how many were removed
+   */
+  async deleteDocument(collectionId: string, documentId: string): Promise<number> {
+    const { deleted: removed } = await this.deleteVectors(collectionId, { filter: { documentId } });
+
+    if (removed > 0) {
+      console.log(`🗑️ Deleted document ${documentId} (${removed} chunks) from collection ${collectionId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Push the local vector count to the VectorRegistry, keeping the recorded storage root
+   */
+  async syncVectorCount(collectionId: string): Promise<string | null> {
+    const collection = this.collections.get(collectionId);
+    if (!collection || !this.vectorRegistryService.isConfigured()) {
+      return null;
+    }
+
+    // The metadata hash describes the snapshot at the storage root, so it is carried over with it
+    const onChain = await this.vectorRegistryService.getCollection(collectionId);
+    const txHash = await this.vectorRegistryService.updateCollection(
+      collectionId,
+      onChain?.storageRoot || '',
+      collection.count,
+      onChain?.storageRoot ? onChain.metadataHash : undefined
+    );
+    console.log(`✅ Updated blockchain: collection ${collectionId} now has ${collection.count} vectors`);
+    return txHash;
   }
 
   /**
@@ -381,6 +2051,7 @@ export class VectorEngine {
     collections: number;
     totalVectors: number;
     memoryUsage: NodeJS.MemoryUsage;
+    collectionMemory: CollectionMemoryStats[];
   } {
     const totalVectors = Array.from(this.collections.values())
       .reduce((sum, collection) => sum + collection.count, 0);
@@ -389,6 +2060,29 @@ export class VectorEngine {
       collections: this.collections.size,
       totalVectors,
       memoryUsage: process.memoryUsage(),
+      collectionMemory: Array.from(this.collections.values(), collection => this.getCollectionMemory(collection)),
+    };
+  }
+
+  /**
+   * Estimate the memory each vector of a collection takes
+   */
+  private getCollectionMemory(collection: Collection): CollectionMemoryStats {
+    const quantizer = this.quantizers.get(collection.id);
+
+    // Arena slots hold float32 values; codes take one byte per entry
+    const stored = quantizer?.isTrained() ? quantizer.bytesPerVector : collection.dimension * Float32Array.BYTES_PER_ELEMENT;
+
+    // hnswlib keeps float32 data, up to 2 * M level-0 links with their count, and the label
+    const index = collection.dimension * 4 + (2 * config.vector.hnsw.m + 1) * 4 + 8;
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      vectors: collection.count,
+      quantization: quantizer?.isTrained() ? collection.quantization!.type : 'none',
+      arenaBytes: this.arenas.get(collection.id)!.getAllocatedBytes(),
+      bytesPerVector: { stored, index, total: stored + index },
     };
   }
 
@@ -433,3 +2127,15 @@ export class VectorEngine {
     };
   }
 }
+
+function mergeMetadata(current: Record<string, any>, patch: Record<string, any>): Record<string, any> {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
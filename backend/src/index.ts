@@ -4,8 +4,8 @@ import { config } from './config';
 import { VectorEngine } from './core/VectorEngine';
 import { EmbeddingService } from './services/EmbeddingService';
 import { GeminiService } from './services/GeminiService';
-import { Real0GStorageSDK } from './services/Real0GStorageSDK';
 import { IStorageService } from './services/StorageInterface';
+import { createStorageService } from './services/StorageFactory';
 import { collectionRoutes } from './routes/collections';
 import { systemRoutes } from './routes/system';
 import { uploadRoutes } from './routes/upload';
@@ -37,10 +37,10 @@ class VectorZeroServer {
     });
 
     // Initialize services
-    this.vectorEngine = new VectorEngine();
+    this.storageService = createStorageService();
+    this.vectorEngine = new VectorEngine(this.storageService);
     this.embeddingService = new EmbeddingService();
     this.geminiService = new GeminiService(config.gemini.apiKey);
-    this.storageService = new Real0GStorageSDK();
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -151,6 +151,7 @@ class VectorZeroServer {
       
       try {
         await this.fastify.close();
+        this.vectorEngine.shutdown();
         console.log('✅ Server closed successfully');
         process.exit(0);
       } catch (error) {
@@ -184,6 +185,11 @@ class VectorZeroServer {
       // Skip creating default collection - users will create their own through uploads
       console.log(`📁 Ready to accept collection creation through uploads`);
 
+      // Rehydrate collections from 0G Storage in the background; progress is at /api/v1/collections/rehydration
+      this.vectorEngine.rehydrateFromChain().catch(error => {
+        console.error('❌ Failed to rehydrate collections from chain:', error);
+      });
+
       const address = await this.fastify.listen({
         port: config.port,
         host: '0.0.0.0',
@@ -1,12 +1,22 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { VectorEngine } from '../core/VectorEngine';
+import { VectorEngine, ExportMode, EXPORT_MODES } from '../core/VectorEngine';
 import { EmbeddingService } from '../services/EmbeddingService';
 import { IStorageService } from '../services/StorageInterface';
+import { DistanceMetric, DISTANCE_METRICS, isDistanceMetric } from '../core/DistanceMetric';
+import { MetadataFilter, validateFilter } from '../core/MetadataFilter';
+import { SearchMode, FusionMethod, SEARCH_MODES, FUSION_METHODS, isSearchMode, isFusionMethod } from '../core/RankFusion';
+import { QuantizationOptions, QuantizationType, validateQuantization } from '../core/Quantization';
+import { config } from '../config';
+import { v4 as uuidv4 } from 'uuid';
 
 interface CreateCollectionRequest {
   name: string;
   dimension?: number;
   description?: string;
+  maxElements?: number;
+  initialCapacity?: number;
+  metric?: DistanceMetric;
+  quantization?: QuantizationType | QuantizationOptions;
 }
 
 interface InsertVectorRequest {
@@ -19,10 +29,37 @@ interface BatchInsertRequest {
   vectors: InsertVectorRequest[];
 }
 
+interface BatchUpsertRequest {
+  vectors: (InsertVectorRequest & { id: string })[];
+}
+
+interface BulkDeleteRequest {
+  ids?: string[];
+  filter?: MetadataFilter;
+  dryRun?: boolean;
+}
+
+interface ExportCollectionRequest {
+  mode?: ExportMode;
+}
+
+interface ImportCollectionRequest {
+  rootHash: string;
+  name?: string;
+  asNew?: boolean;
+}
+
+interface PatchMetadataRequest {
+  metadata: Record<string, any>;
+}
+
 interface SearchRequest {
   query: string | number[];
   k?: number;
-  filter?: Record<string, any>;
+  filter?: MetadataFilter;
+  mode?: SearchMode;
+  fusion?: FusionMethod;
+  alpha?: number;
 }
 
 export async function collectionRoutes(
@@ -68,13 +105,39 @@ export async function collectionRoutes(
   // Create a new collection
   fastify.post('/collections', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { name, dimension, description } = request.body as CreateCollectionRequest;
+      const { name, dimension, description, maxElements, initialCapacity, metric, quantization } = request.body as CreateCollectionRequest;
       
       if (!name) {
         return reply.status(400).send({ error: 'Collection name is required' });
       }
 
-      const collectionId = await vectorEngine.createCollection(name, dimension);
+      // maxElements is accepted as an alias; the index still grows past it on demand
+      const capacity = initialCapacity ?? maxElements;
+      if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 1)) {
+        return reply.status(400).send({ error: 'initialCapacity must be a positive integer' });
+      }
+
+      if (metric !== undefined && !isDistanceMetric(metric)) {
+        return reply.status(400).send({ error: `metric must be one of: ${DISTANCE_METRICS.join(', ')}` });
+      }
+
+      // A bare type such as "scalar" is shorthand for { type: "scalar" } with default settings
+      const quantizationOptions = typeof quantization === 'string' ? { type: quantization } : quantization;
+      if (quantizationOptions !== undefined) {
+        const quantizationErrors = validateQuantization(quantizationOptions, dimension ?? config.vector.dimension);
+        if (quantizationErrors.length > 0) {
+          return reply.status(400).send({ error: 'Invalid quantization', details: quantizationErrors });
+        }
+      }
+
+      const collectionId = await vectorEngine.createCollection(
+        name,
+        dimension,
+        description,
+        true,
+        false,
+        { initialCapacity: capacity, metric, quantization: quantizationOptions }
+      );
       const collection = vectorEngine.getCollection(collectionId);
 
       reply.send({
@@ -237,43 +300,267 @@ export async function collectionRoutes(
     }
   });
 
+  /**
+   * Embed text into a vector when no vector is given, recording the text and model in metadata
+   */
+  async function resolveVector(item: InsertVectorRequest, metadata: Record<string, any>): Promise<number[] | undefined> {
+    if (item.vector) {
+      return item.vector;
+    }
+    if (item.text) {
+      const embedding = await embeddingService.generateEmbedding(item.text);
+      metadata.text = item.text;
+      metadata.embeddingModel = embedding.model;
+      metadata.tokens = embedding.tokens;
+      return embedding.vector;
+    }
+    return undefined;
+  }
+
+  /**
+   * Why a vector can't go into a collection of the given dimension, or null when it can
+   */
+  function validateVector(vector: unknown, dimension: number): string | null {
+    if (!Array.isArray(vector) || !vector.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      return 'Vector must be an array of finite numbers';
+    }
+    if (vector.length !== dimension) {
+      return `Vector dimension ${vector.length} does not match collection dimension ${dimension}`;
+    }
+    return null;
+  }
+
+  // Bulk delete vectors by id list or metadata filter
+  fastify.post('/collections/:id/vectors/delete', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { ids, filter, dryRun = false } = (request.body || {}) as BulkDeleteRequest;
+
+      if (!vectorEngine.getCollection(id)) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      if (ids === undefined && filter === undefined) {
+        return reply.status(400).send({ error: 'Either ids or filter is required' });
+      }
+
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some(vectorId => typeof vectorId !== 'string'))) {
+        return reply.status(400).send({ error: 'ids must be an array of strings' });
+      }
+
+      if (filter !== undefined) {
+        const filterErrors = validateFilter(filter);
+        if (filterErrors.length > 0) {
+          return reply.status(400).send({ error: 'Invalid filter', details: filterErrors });
+        }
+        // An empty filter matches every vector, so it is not taken as a request to empty the collection
+        if (ids === undefined && Object.keys(filter).length === 0) {
+          return reply.status(400).send({ error: 'Filter must have at least one condition' });
+        }
+      }
+
+      const result = await vectorEngine.deleteVectors(id, { ids, filter }, dryRun === true);
+
+      // Don't fail the request if the blockchain update fails - the vectors are already removed locally
+      let txHash: string | null = null;
+      if (result.deleted > 0) {
+        try {
+          txHash = await vectorEngine.syncVectorCount(id);
+        } catch (blockchainError) {
+          console.error('⚠️ Failed to update blockchain vector count:', blockchainError);
+        }
+      }
+
+      reply.send({
+        success: true,
+        dryRun: dryRun === true,
+        matchedCount: result.matched,
+        deletedCount: result.deleted,
+        vectorIds: result.ids,
+        vectorCount: vectorEngine.getCollection(id)!.count,
+        txHash
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to delete vectors: ${error}` });
+    }
+  });
+
+  // Batch upsert vectors with caller-supplied ids
+  fastify.post('/collections/:id/vectors/upsert', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { vectors } = request.body as BatchUpsertRequest;
+
+      if (!vectors || !Array.isArray(vectors)) {
+        return reply.status(400).send({ error: 'Vectors array is required' });
+      }
+
+      const collection = vectorEngine.getCollection(id);
+      if (!collection) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      const missingIds = vectors.filter(item => !item.id || typeof item.id !== 'string').length;
+      if (missingIds > 0) {
+        return reply.status(400).send({ error: `${missingIds} items are missing a string id` });
+      }
+
+      const items = [];
+      for (const item of vectors) {
+        const metadata = item.metadata || {};
+        const vector = await resolveVector(item, metadata);
+        if (!vector && !vectorEngine.getVector(id, item.id)) {
+          return reply.status(400).send({ error: `Vector ${item.id} does not exist, vector or text is required to create it` });
+        }
+        const vectorError = vector && validateVector(vector, collection.dimension);
+        if (vectorError) {
+          return reply.status(400).send({ error: `Vector ${item.id}: ${vectorError}` });
+        }
+        items.push({ id: item.id, vector, metadata });
+      }
+
+      const results = await vectorEngine.upsertVectors(id, items);
+
+      reply.send({
+        success: true,
+        createdCount: results.filter(r => r.created).length,
+        updatedCount: results.filter(r => !r.created).length,
+        results,
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to upsert vectors: ${error}` });
+    }
+  });
+
+  // Upsert a single vector under a caller-supplied id
+  fastify.put('/collections/:id/vectors/:vectorId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id, vectorId } = request.params as { id: string; vectorId: string };
+      const body = (request.body || {}) as InsertVectorRequest;
+      const metadata = body.metadata || {};
+
+      const collection = vectorEngine.getCollection(id);
+      if (!collection) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      const vector = await resolveVector(body, metadata);
+      if (!vector && !vectorEngine.getVector(id, vectorId)) {
+        return reply.status(400).send({ error: 'Either vector or text is required to create a vector' });
+      }
+      const vectorError = vector && validateVector(vector, collection.dimension);
+      if (vectorError) {
+        return reply.status(400).send({ error: vectorError });
+      }
+
+      const result = await vectorEngine.upsertVector(id, vectorId, vector, metadata);
+
+      reply.status(result.created ? 201 : 200).send({
+        success: true,
+        vectorId: result.id,
+        created: result.created,
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to upsert vector: ${error}` });
+    }
+  });
+
+  // Merge metadata into an existing vector
+  fastify.patch('/collections/:id/vectors/:vectorId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id, vectorId } = request.params as { id: string; vectorId: string };
+      const { metadata } = (request.body || {}) as PatchMetadataRequest;
+
+      if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+        return reply.status(400).send({ error: 'metadata object is required' });
+      }
+
+      const vector = await vectorEngine.updateMetadata(id, vectorId, metadata);
+      if (!vector) {
+        return reply.status(404).send({ error: 'Vector not found' });
+      }
+
+      reply.send({ success: true, vectorId, metadata: vector.metadata });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to update vector metadata: ${error}` });
+    }
+  });
+
   // Search vectors
   fastify.post('/collections/:id/search', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { id } = request.params as { id: string };
-      const { query, k = 10, filter } = request.body as SearchRequest;
+      const { query, k = 10, filter, mode = 'vector', fusion, alpha } = request.body as SearchRequest;
 
       if (!query) {
         return reply.status(400).send({ error: 'Query is required' });
       }
 
-      let queryVector: number[];
+      if (!isSearchMode(mode)) {
+        return reply.status(400).send({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+      }
 
-      if (Array.isArray(query)) {
-        queryVector = query;
-      } else if (typeof query === 'string') {
-        const embedding = await embeddingService.generateEmbedding(query);
-        queryVector = embedding.vector;
-      } else {
+      if (mode !== 'vector' && typeof query !== 'string') {
+        return reply.status(400).send({ error: `${mode} search requires a text query` });
+      }
+
+      if (fusion !== undefined && !isFusionMethod(fusion)) {
+        return reply.status(400).send({ error: `fusion must be one of: ${FUSION_METHODS.join(', ')}` });
+      }
+
+      if (alpha !== undefined && (typeof alpha !== 'number' || alpha < 0 || alpha > 1)) {
+        return reply.status(400).send({ error: 'alpha must be a number between 0 and 1' });
+      }
+
+      if (filter !== undefined) {
+        const filterErrors = validateFilter(filter);
+        if (filterErrors.length > 0) {
+          return reply.status(400).send({ error: 'Invalid filter', details: filterErrors });
+        }
+      }
+
+      if (!Array.isArray(query) && typeof query !== 'string') {
         return reply.status(400).send({ error: 'Query must be a string or number array' });
       }
 
-      // Create filter function if filter object is provided
-      let filterFn: ((metadata: Record<string, any>) => boolean) | undefined;
-      if (filter) {
-        filterFn = (metadata: Record<string, any>) => {
-          return Object.entries(filter).every(([key, value]) => {
-            return metadata[key] === value;
-          });
-        };
+      if (!Number.isInteger(k) || k < 1) {
+        return reply.status(400).send({ error: 'k must be a positive integer' });
+      }
+
+      const collection = vectorEngine.getCollection(id);
+      if (!collection) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      const queryError = Array.isArray(query) && validateVector(query, collection.dimension);
+      if (queryError) {
+        return reply.status(400).send({ error: `Query: ${queryError}` });
       }
 
-      const results = await vectorEngine.searchVectors(id, queryVector, k, filterFn);
+      let results;
+
+      if (mode === 'keyword') {
+        results = await vectorEngine.keywordSearch(id, query as string, k, filter);
+      } else {
+        let queryVector: number[];
+
+        if (Array.isArray(query)) {
+          queryVector = query;
+        } else {
+          const embedding = await embeddingService.generateEmbedding(query);
+          queryVector = embedding.vector;
+        }
+
+        results = mode === 'hybrid'
+          ? await vectorEngine.hybridSearch(id, queryVector, query as string, k, filter, { fusion, alpha })
+          : await vectorEngine.searchVectors(id, queryVector, k, filter);
+      }
 
       reply.send({
         success: true,
         results,
         query: typeof query === 'string' ? query : '[vector]',
+        mode,
         k: results.length,
       });
     } catch (error) {
@@ -313,6 +600,64 @@ export async function collectionRoutes(
     }
   });
 
+  // List source documents ingested into a collection
+  fastify.get('/collections/:id/documents', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      if (!vectorEngine.getCollection(id)) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      const documents = vectorEngine.listDocuments(id);
+      documents.sort((a, b) => b.created - a.created);
+
+      reply.send({
+        success: true,
+        collectionId: id,
+        documents,
+        count: documents.length
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to list documents: ${error}` });
+    }
+  });
+
+  // Delete every chunk of a source document
+  fastify.delete('/collections/:id/documents/:documentId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id, documentId } = request.params as { id: string; documentId: string };
+
+      if (!vectorEngine.getCollection(id)) {
+        return reply.status(404).send({ error: 'Collection not found' });
+      }
+
+      const removed = await vectorEngine.deleteDocument(id, documentId);
+      if (removed === 0) {
+        return reply.status(404).send({ error: 'Document not found' });
+      }
+
+      // Don't fail the request if the blockchain update fails - the chunks are already removed locally
+      let txHash: string | null = null;
+      try {
+        txHash = await vectorEngine.syncVectorCount(id);
+      } catch (blockchainError) {
+        console.error('⚠️ Failed to update blockchain vector count:', blockchainError);
+      }
+
+      reply.send({
+        success: true,
+        message: 'Document deleted successfully',
+        documentId,
+        deletedVectors: removed,
+        vectorCount: vectorEngine.getCollection(id)!.count,
+        txHash
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to delete document: ${error}` });
+    }
+  });
+
   // Export collection to 0G Storage
   fastify.post('/collections/:id/export', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -323,28 +668,100 @@ export async function collectionRoutes(
         return reply.status(404).send({ error: 'Collection not found' });
       }
 
-      // Get all vectors in collection (simplified - in production, handle large collections efficiently)
-      const vectors: any[] = [];
-      // This is a simplified export - in production, you'd implement proper pagination
-      
-      const metadata = await storageService.uploadVectorCollection(id, vectors, {
-        name: collection.name,
-        dimension: collection.dimension,
-        count: collection.count,
-        exportedAt: Date.now(),
-      });
+      const { mode = 'auto' } = (request.body || {}) as ExportCollectionRequest;
+      if (!EXPORT_MODES.includes(mode)) {
+        return reply.status(400).send({ error: `mode must be one of: ${EXPORT_MODES.join(', ')}` });
+      }
+      if (mode === 'delta' && !collection.snapshotChain) {
+        return reply.status(400).send({ error: 'Collection has no base snapshot yet; export it in full first' });
+      }
+
+      const result = await vectorEngine.exportCollection(id, storageService, mode);
 
       reply.send({
         success: true,
-        message: 'Collection exported to 0G Storage',
-        storageRoot: metadata.root,
-        size: metadata.size,
+        message: result.kind === 'unchanged'
+          ? 'Collection unchanged since its last export'
+          : `Collection exported to 0G Storage as a ${result.kind === 'delta' ? 'delta segment' : 'full snapshot'}`,
+        kind: result.kind,
+        storageRoot: result.root,
+        baseRoot: result.baseRoot,
+        sequence: result.sequence,
+        upserts: result.upserts,
+        deletes: result.deletes,
+        size: result.size,
+        checksum: result.checksum,
+        vectorCount: result.vectorCount,
+        uploadTxHash: result.uploadTxHash,
+        txHash: result.txHash,
       });
     } catch (error) {
       reply.status(500).send({ error: `Failed to export collection: ${error}` });
     }
   });
 
+  // Rebuild a collection from a snapshot stored in 0G Storage
+  fastify.post('/collections/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { rootHash, name, asNew = false } = (request.body || {}) as ImportCollectionRequest;
+
+      if (!rootHash || typeof rootHash !== 'string') {
+        return reply.status(400).send({ error: 'rootHash is required' });
+      }
+
+      let collection;
+      try {
+        collection = await vectorEngine.importFromStorage(rootHash, storageService, {
+          collectionId: asNew ? uuidv4() : undefined,
+          name,
+          sourceRoot: rootHash,
+        });
+      } catch (importError: any) {
+        if (/already exists/.test(importError.message)) {
+          return reply.status(409).send({ error: importError.message });
+        }
+        if (/snapshot|delta segment/i.test(importError.message)) {
+          return reply.status(400).send({ error: `Invalid collection snapshot: ${importError.message}` });
+        }
+        throw importError;
+      }
+
+      reply.send({
+        success: true,
+        message: 'Collection imported from 0G Storage',
+        collection,
+        rootHash,
+      });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to import collection: ${error}` });
+    }
+  });
+
+  // Progress of collections being rebuilt from their on-chain storage roots
+  fastify.get('/collections/rehydration', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      reply.send({ success: true, collections: vectorEngine.getRehydrationStatus() });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to get rehydration status: ${error}` });
+    }
+  });
+
+  // Rebuild a collection from its on-chain storage root now
+  fastify.post('/collections/:id/rehydrate', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const progress = await vectorEngine.rehydrateCollection(id);
+
+      if (progress.state === 'failed') {
+        return reply.status(502).send({ error: `Failed to rehydrate collection: ${progress.error}`, progress });
+      }
+
+      reply.send({ success: true, progress, collection: vectorEngine.getCollection(id) });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to rehydrate collection: ${error}` });
+    }
+  });
+
   // Get collections by owner address
   fastify.get('/collections/by-owner/:address', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
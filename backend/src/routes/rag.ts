@@ -2,12 +2,16 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { VectorEngine } from '../core/VectorEngine';
 import { EmbeddingService } from '../services/EmbeddingService';
 import { GeminiService } from '../services/GeminiService';
+import { SearchMode, FusionMethod, SEARCH_MODES, FUSION_METHODS, isSearchMode, isFusionMethod } from '../core/RankFusion';
 
 interface RAGQueryRequest {
   collectionId: string;
   query: string;
   topK?: number;
   includeMetadata?: boolean;
+  mode?: SearchMode;
+  fusion?: FusionMethod;
+  alpha?: number;
 }
 
 interface RAGSource {
@@ -35,7 +39,10 @@ export async function ragRoutes(
         collectionId,
         query,
         topK = 5,
-        includeMetadata = true
+        includeMetadata = true,
+        mode = 'vector',
+        fusion,
+        alpha
       } = request.body as RAGQueryRequest;
 
       // Validate inputs
@@ -53,6 +60,27 @@ export async function ragRoutes(
         });
       }
 
+      if (!isSearchMode(mode)) {
+        return reply.status(400).send({
+          success: false,
+          error: `mode must be one of: ${SEARCH_MODES.join(', ')}`
+        });
+      }
+
+      if (fusion !== undefined && !isFusionMethod(fusion)) {
+        return reply.status(400).send({
+          success: false,
+          error: `fusion must be one of: ${FUSION_METHODS.join(', ')}`
+        });
+      }
+
+      if (alpha !== undefined && (typeof alpha !== 'number' || alpha < 0 || alpha > 1)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'alpha must be a number between 0 and 1'
+        });
+      }
+
       // Check if collection exists
       const collection = vectorEngine.getCollection(collectionId);
       if (!collection) {
@@ -79,17 +107,24 @@ export async function ragRoutes(
 
       console.log(`🔍 RAG Query: "${query}" in collection: ${collection.name}`);
 
-      // Step 1: Generate embedding for query
-      console.log(`📊 Step 1: Generating query embedding...`);
-      const queryEmbedding = await embeddingService.generateEmbedding(query);
+      // Step 1: Generate embedding for query (keyword search does not need one)
+      let queryVector: number[] | undefined;
+      if (mode !== 'keyword') {
+        console.log(`📊 Step 1: Generating query embedding...`);
+        const queryEmbedding = await embeddingService.generateEmbedding(query);
+        queryVector = queryEmbedding.vector;
+      }
       
-      // Step 2: Search for similar vectors
-      console.log(`🔎 Step 2: Searching for top ${topK} similar vectors...`);
-      const searchResults = await vectorEngine.searchVectors(
-        collectionId,
-        queryEmbedding.vector,
-        topK
-      );
+      // Step 2: Search for relevant chunks
+      console.log(`🔎 Step 2: Searching for top ${topK} chunks (${mode} search)...`);
+      let searchResults;
+      if (mode === 'keyword') {
+        searchResults = await vectorEngine.keywordSearch(collectionId, query, topK);
+      } else if (mode === 'hybrid') {
+        searchResults = await vectorEngine.hybridSearch(collectionId, queryVector!, query, topK, undefined, { fusion, alpha });
+      } else {
+        searchResults = await vectorEngine.searchVectors(collectionId, queryVector!, topK);
+      }
 
       if (searchResults.length === 0) {
         return reply.send({
@@ -97,7 +132,7 @@ export async function ragRoutes(
           answer: 'I could not find any relevant information in the collection to answer your question.',
           sources: [],
           processingTime: Date.now() - startTime,
-          queryEmbedding: includeMetadata ? queryEmbedding.vector : undefined
+          queryEmbedding: includeMetadata ? queryVector : undefined
         });
       }
 
@@ -148,7 +183,8 @@ export async function ragRoutes(
         sources,
         processingTime,
         tokensUsed: geminiResponse.tokensUsed,
-        queryEmbedding: includeMetadata ? queryEmbedding.vector : undefined,
+        queryEmbedding: includeMetadata ? queryVector : undefined,
+        mode,
         collectionName: collection.name
       });
 
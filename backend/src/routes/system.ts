@@ -40,6 +40,7 @@ export async function systemRoutes(
             local: {
               collections: comprehensiveStats.local.collections,
               totalVectors: comprehensiveStats.local.totalVectors,
+              memory: comprehensiveStats.local.collectionMemory,
             },
             blockchain: comprehensiveStats.blockchain.vectorRegistry,
           },
@@ -1,10 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { MultipartFile } from '@fastify/multipart';
-import { VectorEngine } from '../core/VectorEngine';
+import { VectorEngine, VectorDocument } from '../core/VectorEngine';
 import { EmbeddingService } from '../services/EmbeddingService';
 import { IStorageService } from '../services/StorageInterface';
 import { DocumentProcessingService, ChunkingStrategy, UploadedFile } from '../services/DocumentProcessingService';
-import { VectorRegistryService } from '../services/VectorRegistryService';
+import { IngestionQueue, JobContext } from '../services/IngestionQueue';
+import { readArchive } from '../services/ArchiveReader';
+import { config } from '../config';
 
 interface UploadRequest {
   collectionName?: string;
@@ -14,8 +16,37 @@ interface UploadRequest {
   useZeroGCompute?: boolean;
   createNewCollection?: boolean;
   existingCollectionId?: string;
+  onDuplicate?: DuplicateAction;
 }
 
+type DuplicateAction = 'skip' | 'replace' | 'append';
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ['skip', 'replace', 'append'];
+
+interface IngestionInput {
+  files: UploadedFile[];
+  uploadConfig: UploadRequest;
+}
+
+// Where a document is ingested; collectionId stays null until the first document creates the collection
+interface IngestionTarget {
+  collectionId: string | null;
+  name: string;
+  description: string;
+}
+
+type FileStatus = 'ingested' | 'replaced' | 'appended' | 'skipped' | 'failed' | 'cancelled';
+
+interface FileResult {
+  filename: string;
+  status: FileStatus;
+  error?: string;
+  [detail: string]: any;
+}
+
+// Uploads with these extensions are unpacked and each file inside is ingested as its own document
+const ARCHIVE_EXTENSIONS = /\.(zip|tar|tar\.gz|tgz)$/i;
+
 interface FileData {
   filename: string;
   mimetype: string;
@@ -30,17 +61,19 @@ export async function uploadRoutes(
   storageService: IStorageService
 ) {
   const documentProcessor = new DocumentProcessingService(embeddingService, storageService);
+  const ingestionQueue = new IngestionQueue<IngestionInput>(ingestUpload);
 
   // Register multipart support for file uploads
   await fastify.register(require('@fastify/multipart'), {
     limits: {
       fileSize: 50 * 1024 * 1024, // 50MB
-      files: 1, // Only one file at a time
+      files: config.storage.maxFiles,
     },
   });
 
   /**
-   * Upload and process a document
+   * Upload documents, or zip and tar archives of them, and queue them for ingestion into one
+   * collection; progress is available from /upload/jobs/:id
    */
   fastify.post('/upload', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -54,7 +87,7 @@ export async function uploadRoutes(
         });
       }
 
-      let fileData: UploadedFile | null = null;
+      const files: UploadedFile[] = [];
       let uploadConfig: UploadRequest | null = null;
 
       // Process multipart data
@@ -64,13 +97,13 @@ export async function uploadRoutes(
         if (part.type === 'file') {
           // Handle file upload
           const buffer = await part.toBuffer();
-          fileData = {
+          files.push({
             filename: part.filename || 'unknown.txt',
             mimetype: part.mimetype || 'text/plain',
             encoding: part.encoding,
             size: buffer.length,
             buffer
-          };
+          });
         } else if (part.type === 'field' && part.fieldname === 'config') {
           // Handle configuration
           try {
@@ -86,10 +119,10 @@ export async function uploadRoutes(
       }
 
       // Validate inputs
-      if (!fileData) {
+      if (files.length === 0) {
         return reply.status(400).send({
           error: 'No file uploaded',
-          message: 'Please upload a file'
+          message: 'Please upload at least one file'
         });
       }
 
@@ -108,134 +141,56 @@ export async function uploadRoutes(
         });
       }
 
-      console.log(`📁 Processing upload: ${fileData.filename} (${fileData.size} bytes)`);
+      const onDuplicate = uploadConfig.onDuplicate || 'skip';
+      if (!DUPLICATE_ACTIONS.includes(onDuplicate)) {
+        return reply.status(400).send({
+          error: 'Invalid duplicate handling',
+          message: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`
+        });
+      }
 
-      // Process the document
-      console.log('🔄 Starting document processing...');
-      const processedDoc = await documentProcessor.processDocument(
-        fileData,
-        uploadConfig.chunkingStrategy,
-        uploadConfig.generateEmbeddings !== false, // Default to true
-        uploadConfig.useZeroGCompute || false
-      );
-      console.log(`✅ Document processing completed: ${processedDoc.chunks.length} chunks`);
-
-      // Create or use existing collection
-      let collectionId: string;
-
-      if (uploadConfig.createNewCollection !== false) {
-        // Create new collection
-        const collectionName = uploadConfig.collectionName || 
-          `${fileData.filename.replace(/\.[^/.]+$/, '')}_collection`;
-        const collectionDescription = uploadConfig.collectionDescription || 
-          `Collection created from ${fileData.filename}`;
-        
-        collectionId = await vectorEngine.createCollection(
-          collectionName,
-          processedDoc.chunks[0]?.embedding?.length || 768,
-          collectionDescription
-        );
-        
-        console.log(`📋 Created new collection: ${collectionName} (${collectionId})`);
-      } else {
-        // Use existing collection
+      // Catch a missing target collection now rather than once the job runs
+      if (uploadConfig.createNewCollection === false) {
         if (!uploadConfig.existingCollectionId) {
           return reply.status(400).send({
             error: 'Missing collection ID',
             message: 'existingCollectionId is required when createNewCollection is false'
           });
         }
-        
-        collectionId = uploadConfig.existingCollectionId;
-        const collection = vectorEngine.getCollection(collectionId);
-        
-        if (!collection) {
+        if (!vectorEngine.getCollection(uploadConfig.existingCollectionId)) {
           return reply.status(404).send({
             error: 'Collection not found',
-            message: `Collection ${collectionId} does not exist`
+            message: `Collection ${uploadConfig.existingCollectionId} does not exist`
           });
         }
-        
-        console.log(`📋 Using existing collection: ${collectionId}`);
-      }
-
-      // Store vectors in collection
-      const vectorIds: string[] = [];
-      
-      for (const chunk of processedDoc.chunks) {
-        if (chunk.embedding) {
-          const vectorId = await vectorEngine.insertVector(
-            collectionId,
-            chunk.embedding,
-            {
-              text: chunk.text,
-              chunkId: chunk.id,
-              documentId: processedDoc.id,
-              filename: processedDoc.filename,
-              ...chunk.metadata
-            }
-          );
-          vectorIds.push(vectorId);
-        }
       }
 
-      // Update blockchain with new vector count
-      // This ensures the blockchain reflects the actual vector count even after server restarts
-      const collection = vectorEngine.getCollection(collectionId);
-      if (collection && vectorIds.length > 0) {
-        try {
-          const vectorRegistryService = new VectorRegistryService();
-          if (vectorRegistryService.isConfigured()) {
-            // Update blockchain with current vector count (storage root can be empty, updated later if needed)
-            await vectorRegistryService.updateCollection(
-              collectionId,
-              '', // Empty storage root for now - can be updated when syncing to 0G Storage
-              collection.count, // Updated count from local memory
-              undefined // metadataHash will be auto-generated
-            );
-            console.log(`✅ Updated blockchain: collection ${collectionId} now has ${collection.count} vectors`);
-          }
-        } catch (blockchainError) {
-          console.error('⚠️ Failed to update blockchain vector count:', blockchainError);
-          // Don't fail the request if blockchain update fails - data is still stored locally
-        }
+      if (ingestionQueue.isFull()) {
+        return reply.status(503).send({
+          error: 'Ingestion queue is full',
+          message: 'Too many uploads are waiting to be processed, please retry later'
+        });
       }
 
-      // Prepare response
-      const response = {
+      const job = ingestionQueue.enqueue({ files, uploadConfig }, {
+        filename: files.length === 1 ? files[0].filename : `${files.length} files`,
+        size: files.reduce((sum, file) => sum + file.size, 0)
+      });
+      reply.status(202).send({
         success: true,
-        message: `Document processed successfully`,
-        document: {
-          id: processedDoc.id,
-          filename: processedDoc.filename,
-          originalSize: processedDoc.originalSize,
-          processingTime: processedDoc.processingTime,
-          chunks: processedDoc.chunks.length,
-          textLength: processedDoc.textLength,
-          storageMetadata: processedDoc.storageMetadata
-        },
-        collection: {
-          id: collectionId,
-          name: uploadConfig.collectionName || fileData.filename.replace(/\.[^/.]+$/, '') + '_collection',
-          isNew: uploadConfig.createNewCollection !== false
-        },
-        processing: {
-          chunkingStrategy: uploadConfig.chunkingStrategy,
-          totalChunks: processedDoc.chunks.length,
-          insertedVectors: vectorIds.length,
-          generatedEmbeddings: processedDoc.chunks.filter(c => c.embedding).length,
-          usedZeroGCompute: uploadConfig.useZeroGCompute || false
-        },
-        vectors: {
-          ids: vectorIds,
-          count: vectorIds.length
-        }
-      };
-
-      console.log(`✅ Upload completed: ${vectorIds.length} vectors stored in collection ${collectionId}`);
-      reply.send(response);
+        message: 'Upload queued for processing',
+        job
+      });
 
     } catch (error: any) {
+      // Too many files, or a file over the size limit
+      if (error.statusCode === 413) {
+        return reply.status(413).send({
+          error: 'Upload too large',
+          message: `${error.message} (at most ${config.storage.maxFiles} files of 50MB each)`
+        });
+      }
+
       console.error('Error processing upload:', error);
       reply.status(500).send({
         error: 'Upload processing failed',
@@ -245,6 +200,77 @@ export async function uploadRoutes(
     }
   });
 
+  /**
+   * List ingestion jobs, newest first
+   */
+  fastify.get('/upload/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      reply.send({ success: true, jobs: ingestionQueue.listJobs(), queue: ingestionQueue.getStats() });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to list ingestion jobs: ${error}` });
+    }
+  });
+
+  /**
+   * Get an ingestion job with stage-by-stage progress, and its result once completed
+   */
+  fastify.get('/upload/jobs/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const job = ingestionQueue.getJob(id);
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      reply.send({ success: true, job });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to get ingestion job: ${error}` });
+    }
+  });
+
+  /**
+   * Cancel a queued job, or stop a running one before it writes to the collection
+   */
+  fastify.post('/upload/jobs/:id/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const job = ingestionQueue.getJob(id);
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+      if (!ingestionQueue.cancel(id)) {
+        return reply.status(409).send({ error: `Job is already ${job.status}` });
+      }
+
+      reply.send({ success: true, job });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to cancel ingestion job: ${error}` });
+    }
+  });
+
+  /**
+   * Run a failed or cancelled job again
+   */
+  fastify.post('/upload/jobs/:id/retry', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const job = ingestionQueue.getJob(id);
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+      if (ingestionQueue.isFull()) {
+        return reply.status(503).send({ error: 'Ingestion queue is full' });
+      }
+      if (!ingestionQueue.retry(id)) {
+        return reply.status(409).send({ error: `Only failed or cancelled jobs can be retried, job is ${job.status}` });
+      }
+
+      reply.status(202).send({ success: true, job });
+    } catch (error) {
+      reply.status(500).send({ error: `Failed to retry ingestion job: ${error}` });
+    }
+  });
+
   /**
    * Get supported file formats and chunking strategies
    */
@@ -256,6 +282,7 @@ export async function uploadRoutes(
         success: true,
         info: {
           ...processingStats,
+          queue: ingestionQueue.getStats(),
           chunkingStrategies: {
             fixed: {
               description: 'Split text into fixed-size chunks with overlap',
@@ -270,14 +297,23 @@ export async function uploadRoutes(
               parameters: ['chunkSize']
             },
             semantic: {
-              description: 'Group semantically similar content (experimental)',
-              parameters: ['chunkSize', 'overlap']
+              description: 'Split where the topic shifts, found from embedding similarity between adjacent sentences',
+              parameters: ['chunkSize', 'minChunkSize', 'breakpointPercentile']
+            },
+            markdown: {
+              description: 'Split Markdown at headings, lists, tables and code blocks, with heading breadcrumbs',
+              parameters: ['chunkSize']
+            },
+            html: {
+              description: 'Split HTML at headings, lists, tables and code blocks, with heading breadcrumbs',
+              parameters: ['chunkSize']
             }
           },
           limits: {
             maxFileSize: '50MB',
-            maxFiles: 1,
-            supportedFormats: ['txt', 'pdf', 'docx', 'md', 'html', 'csv', 'json', 'xml']
+            maxFiles: config.storage.maxFiles,
+            archiveFormats: ['zip', 'tar', 'tar.gz'],
+            supportedFormats: processingStats.supportedExtensions
           }
         }
       });
@@ -288,4 +324,326 @@ export async function uploadRoutes(
       });
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * Run one queued upload: archives are unpacked, then every document is ingested into the
+   * same collection. A document that fails is reported in its file result without stopping
+   * the others.
+   */
+  async function ingestUpload({ files, uploadConfig }: IngestionInput, context: JobContext) {
+    const results: FileResult[] = [];
+    const documents: UploadedFile[] = [];
+
+    for (const file of files) {
+      if (!ARCHIVE_EXTENSIONS.test(file.filename)) {
+        documents.push(file);
+        continue;
+      }
+
+      try {
+        const entries = readArchive(file.buffer, {
+          maxEntries: config.storage.maxArchiveEntries,
+          maxBytes: config.storage.maxArchiveBytes
+        })
+          // Hidden files and macOS resource forks are archive clutter, not documents
+          .filter(entry => !entry.path.split('/').some(part => part.startsWith('.') || part === '__MACOSX'));
+        if (entries.length === 0) {
+          throw new Error('Archive contains no files');
+        }
+
+        console.log(`📦 Unpacked ${entries.length} files from ${file.filename}`);
+        for (const entry of entries) {
+          documents.push({
+            filename: `${file.filename}/${entry.path}`,
+            mimetype: DocumentProcessingService.mimeTypeFor(entry.path),
+            encoding: file.encoding,
+            size: entry.data.length,
+            buffer: entry.data
+          });
+        }
+      } catch (error: any) {
+        console.error(`Error unpacking ${file.filename}:`, error);
+        results.push({ filename: file.filename, status: 'failed', error: error.message || String(error) });
+      }
+    }
+
+    const uploadName = files[0].filename.replace(/(\.tar)?\.[^/.]+$/, '');
+    const target: IngestionTarget = {
+      collectionId: uploadConfig.createNewCollection === false ? uploadConfig.existingCollectionId! : null,
+      name: uploadConfig.collectionName || `${uploadName}_collection`,
+      description: uploadConfig.collectionDescription || `Collection created from ${files.map(file => file.filename).join(', ')}`
+    };
+
+    for (let i = 0; i < documents.length; i++) {
+      const document = documents[i];
+      context.startFile(document.filename, documents.length);
+
+      try {
+        const { success, message, collection, ...details } = await ingestDocument(document, uploadConfig, target, context);
+        results.push({ filename: document.filename, status: details.deduplication.action as FileStatus, ...details });
+      } catch (error: any) {
+        if (!context.signal.aborted) {
+          console.error(`Error ingesting ${document.filename}:`, error);
+          results.push({ filename: document.filename, status: 'failed', error: error.message || String(error) });
+          continue;
+        }
+
+        // Nothing ingested yet means nothing to report, so the whole job is cancelled
+        if (!results.some(result => result.status !== 'failed')) {
+          throw error;
+        }
+        // Otherwise the documents already ingested are still reported
+        for (const remaining of documents.slice(i)) {
+          results.push({ filename: remaining.filename, status: 'cancelled' });
+        }
+        break;
+      }
+    }
+
+    const summary = {
+      total: results.length,
+      succeeded: results.filter(result => result.status !== 'failed' && result.status !== 'cancelled').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      cancelled: results.filter(result => result.status === 'cancelled').length
+    };
+    if (summary.succeeded === 0) {
+      throw new Error(results.length === 1
+        ? results[0].error
+        : `All ${results.length} files failed: ${results.map(result => `${result.filename}: ${result.error}`).join('; ')}`);
+    }
+
+    const collection = vectorEngine.getCollection(target.collectionId!);
+    console.log(`✅ Upload completed: ${summary.succeeded}/${summary.total} files ingested into collection ${target.collectionId}`);
+    return {
+      // Single-document uploads keep the document summary at the top level
+      ...(results.length === 1 ? results[0] : {}),
+      success: true,
+      message: summary.failed > 0 || summary.cancelled > 0
+        ? `Ingested ${summary.succeeded} of ${summary.total} files`
+        : results.length === 1 ? 'Document processed successfully' : `Ingested ${summary.total} files`,
+      collection: {
+        id: target.collectionId,
+        name: collection?.name ?? target.name,
+        isNew: uploadConfig.createNewCollection !== false
+      },
+      summary,
+      files: results
+    };
+  }
+
+  /**
+   * Ingest one document into the target collection through extraction, chunking,
+   * embedding, storage and indexing, creating the collection if it does not exist yet
+   */
+  async function ingestDocument(fileData: UploadedFile, uploadConfig: UploadRequest, target: IngestionTarget, context: JobContext) {
+    const onDuplicate = uploadConfig.onDuplicate || 'skip';
+
+    console.log(`📁 Processing upload: ${fileData.filename} (${fileData.size} bytes)`);
+
+    // Look for an earlier ingestion of the same file in the target collection
+    const contentHash = DocumentProcessingService.hashContent(fileData.buffer);
+    let existingChunks: VectorDocument[] = [];
+    if (target.collectionId && vectorEngine.getCollection(target.collectionId)) {
+      existingChunks = vectorEngine.findVectors(target.collectionId, { contentHash });
+    }
+    const duplicateOf = Array.from(new Set(existingChunks.map(chunk => chunk.metadata.documentId as string)));
+
+    if (existingChunks.length > 0 && onDuplicate === 'skip') {
+      console.log(`⏭️ ${fileData.filename} already ingested as ${duplicateOf.join(', ')}, skipping`);
+      return {
+        success: true,
+        message: 'Document already ingested, skipped',
+        document: {
+          id: duplicateOf[0],
+          filename: fileData.filename,
+          originalSize: fileData.size,
+          chunks: existingChunks.length,
+          contentHash
+        },
+        collection: {
+          id: target.collectionId,
+          isNew: false
+        },
+        deduplication: {
+          contentHash,
+          onDuplicate,
+          action: 'skipped',
+          duplicateOf,
+          reusedChunks: existingChunks.map(chunk => ({
+            vectorId: chunk.id,
+            chunkIndex: chunk.metadata.chunkIndex,
+            chunkHash: chunk.metadata.chunkHash
+          })),
+          removedVectors: 0
+        },
+        vectors: {
+          ids: existingChunks.map(chunk => chunk.id),
+          count: existingChunks.length
+        }
+      };
+    }
+
+    // Chunks that are unchanged since the earlier ingestion keep their embeddings
+    const reusableEmbeddings = new Map<string, number[]>();
+    for (const chunk of existingChunks) {
+      if (chunk.metadata.chunkHash) {
+        reusableEmbeddings.set(chunk.metadata.chunkHash, chunk.vector);
+      }
+    }
+
+    // Process the document
+    console.log('🔄 Starting document processing...');
+    const processedDoc = await documentProcessor.processDocument(
+      fileData,
+      uploadConfig.chunkingStrategy,
+      uploadConfig.generateEmbeddings !== false, // Default to true
+      uploadConfig.useZeroGCompute || false,
+      reusableEmbeddings,
+      context
+    );
+    console.log(`✅ Document processing completed: ${processedDoc.chunks.length} chunks`);
+
+    // Last point where the job can stop without leaving a partial ingestion behind
+    context.checkCancelled();
+    context.startStage('storing');
+
+    // Create or use existing collection
+    let collectionId: string;
+
+    if (!target.collectionId) {
+      // First document of the upload creates the collection the rest are added to
+      collectionId = await vectorEngine.createCollection(
+        target.name,
+        processedDoc.chunks[0]?.embedding?.length || 768,
+        target.description
+      );
+      target.collectionId = collectionId;
+
+      console.log(`📋 Created new collection: ${target.name} (${collectionId})`);
+    } else {
+      // Use existing collection, which may have been deleted while the job was queued
+      collectionId = target.collectionId;
+      if (!vectorEngine.getCollection(collectionId)) {
+        throw new Error(`Collection ${collectionId} does not exist`);
+      }
+
+      console.log(`📋 Using existing collection: ${collectionId}`);
+    }
+
+    // Replacing keeps the original document id; the previous chunks are dropped once the new ones are in
+    const replacing = existingChunks.length > 0 && onDuplicate === 'replace';
+    if (replacing) {
+      processedDoc.id = duplicateOf[0];
+    }
+
+    // Optionally store in 0G Storage, under the collection's data key when encryption is enabled
+    await documentProcessor.storeDocument(processedDoc, { dataKey: vectorEngine.getDataKey(collectionId) });
+
+    // Store vectors in collection; a chunk that fails to insert is reported without failing the rest
+    const vectorIds: string[] = [];
+    context.startStage('indexing', processedDoc.chunks.filter(chunk => chunk.embedding).length);
+    
+    for (const chunk of processedDoc.chunks) {
+      if (chunk.embedding) {
+        try {
+          const vectorId = await vectorEngine.insertVector(
+            collectionId,
+            chunk.embedding,
+            {
+              text: chunk.text,
+              chunkId: chunk.id,
+              chunkIndex: chunk.chunkIndex,
+              documentId: processedDoc.id,
+              filename: processedDoc.filename,
+              contentHash: processedDoc.contentHash,
+              ...chunk.metadata
+            }
+          );
+          vectorIds.push(vectorId);
+          context.chunkDone(chunk.chunkIndex);
+        } catch (insertError: any) {
+          console.error(`Error inserting chunk ${chunk.chunkIndex} of ${processedDoc.filename}:`, insertError);
+          context.chunkDone(chunk.chunkIndex, insertError.message || String(insertError));
+        }
+      }
+    }
+
+    let removedVectors = 0;
+    if (replacing) {
+      const failedChunks = processedDoc.chunks.length - vectorIds.length;
+      if (failedChunks > 0) {
+        // Keep the previous version whole rather than a mix of old and new chunks
+        await vectorEngine.deleteVectors(collectionId, { ids: vectorIds });
+        throw new Error(`${failedChunks} chunks failed to embed or insert, kept the previous version of ${duplicateOf.join(', ')}`);
+      }
+
+      // One write-ahead log entry for all of them rather than one per chunk
+      ({ deleted: removedVectors } = await vectorEngine.deleteVectors(collectionId, {
+        ids: existingChunks.map(chunk => chunk.id),
+      }));
+      console.log(`♻️ Replaced ${removedVectors} chunks of ${duplicateOf.join(', ')}`);
+    }
+
+    context.startStage('syncing');
+
+    // Update blockchain with new vector count
+    // This ensures the blockchain reflects the actual vector count even after server restarts
+    const collection = vectorEngine.getCollection(collectionId);
+    if (collection && (vectorIds.length > 0 || removedVectors > 0)) {
+      try {
+        // Keeps the storage root of the last exported snapshot
+        await vectorEngine.syncVectorCount(collectionId);
+      } catch (blockchainError) {
+        console.error('⚠️ Failed to update blockchain vector count:', blockchainError);
+        // Don't fail the request if blockchain update fails - data is still stored locally
+      }
+    }
+
+    // Prepare response
+    const response = {
+      success: true,
+      message: `Document processed successfully`,
+      document: {
+        id: processedDoc.id,
+        filename: processedDoc.filename,
+        originalSize: processedDoc.originalSize,
+        processingTime: processedDoc.processingTime,
+        chunks: processedDoc.chunks.length,
+        textLength: processedDoc.textLength,
+        contentHash: processedDoc.contentHash,
+        storageMetadata: processedDoc.storageMetadata
+      },
+      collection: {
+        id: collectionId,
+        name: target.name,
+        isNew: uploadConfig.createNewCollection !== false
+      },
+      processing: {
+        chunkingStrategy: uploadConfig.chunkingStrategy,
+        totalChunks: processedDoc.chunks.length,
+        insertedVectors: vectorIds.length,
+        generatedEmbeddings: processedDoc.chunks.filter(c => c.embedding).length,
+        usedZeroGCompute: uploadConfig.useZeroGCompute || false,
+        // Where semantic chunking split the document
+        semanticChunking: processedDoc.semanticChunking
+      },
+      deduplication: {
+        contentHash: processedDoc.contentHash,
+        onDuplicate,
+        action: existingChunks.length === 0 ? 'ingested' : onDuplicate === 'replace' ? 'replaced' : 'appended',
+        duplicateOf,
+        reusedChunks: processedDoc.chunks
+          .filter(chunk => chunk.metadata.reusedEmbedding)
+          .map(chunk => ({ chunkIndex: chunk.chunkIndex, chunkHash: chunk.metadata.chunkHash })),
+        removedVectors
+      },
+      vectors: {
+        ids: vectorIds,
+        count: vectorIds.length
+      }
+    };
+
+    console.log(`✅ Ingested ${fileData.filename}: ${vectorIds.length} vectors stored in collection ${collectionId}`);
+    return response;
+  }
+}
@@ -0,0 +1,212 @@
+import { gunzipSync, inflateRawSync } from 'zlib';
+
+/**
+ * In-memory readers for the archive formats accepted by uploads: zip, tar and gzipped tar.
+ *
+ * Archives are unpacked in memory, so every reader enforces the same limits on the number
+ * of entries and on the total unpacked size, which also defuses decompression bombs.
+ * Only stored and deflated zip entries are supported, and neither zip64 nor encryption.
+ */
+export interface ArchiveEntry {
+  // Path inside the archive, with forward slashes
+  path: string;
+  data: Buffer;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// End of central directory record plus the longest possible comment
+const ZIP_EOCD_SEARCH_BYTES = 22 + 0xffff;
+const TAR_BLOCK = 512;
+
+/**
+ * Format of an archive, recognised from its leading bytes, or null for anything else
+ */
+export function archiveFormat(data: Buffer): ArchiveFormat | null {
+  if (data.length >= 4 && (data.readUInt32LE(0) === ZIP_LOCAL_HEADER || data.readUInt32LE(0) === ZIP_END_OF_CENTRAL_DIRECTORY)) {
+    return 'zip';
+  }
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (data.length >= 262 && data.toString('latin1', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+}
+
+/**
+ * Files in an archive of any supported format. Directories are left out.
+ */
+export function readArchive(data: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  switch (archiveFormat(data)) {
+    case 'zip':
+      return readZip(data, limits);
+    case 'tar':
+      return readTar(data, limits);
+    case 'tar.gz': {
+      const tar = gunzipSync(data, { maxOutputLength: limits.maxBytes + TAR_BLOCK * 2 });
+      if (archiveFormat(tar) !== 'tar') {
+        throw new Error('Gzipped upload is not a tar archive');
+      }
+      return readTar(tar, limits);
+    }
+    default:
+      throw new Error('Not a zip or tar archive');
+  }
+}
+
+/**
+ * Files in a zip archive, located through its central directory
+ */
+export function readZip(data: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  let eocd = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - ZIP_EOCD_SEARCH_BYTES); offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Zip archive is truncated: end of central directory not found');
+  }
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Zip archive is corrupt: bad central directory entry');
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const path = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`Zip entry ${path} is encrypted`);
+    }
+    if (size === 0xffffffff || compressedSize === 0xffffffff) {
+      throw new Error('Zip64 archives are not supported');
+    }
+    totalBytes = checkLimits(entries.length + 1, totalBytes + size, limits);
+
+    // The local header repeats the name and may carry a different extra field
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`Zip archive is corrupt: bad local header for ${path}`);
+    }
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = compressed;
+    } else if (method === 8) {
+      content = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Zip entry ${path} uses unsupported compression method ${method}`);
+    }
+    if (content.length !== size) {
+      throw new Error(`Zip entry ${path} is corrupt: expected ${size} bytes, got ${content.length}`);
+    }
+
+    entries.push({ path, data: content });
+  }
+
+  return entries;
+}
+
+/**
+ * Files in a ustar archive, including GNU long names and pax path overrides
+ */
+export function readTar(data: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+  let offset = 0;
+  let longPath: string | null = null;
+
+  while (offset + TAR_BLOCK <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK);
+    // Two zero blocks end the archive; one is enough to stop reading
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(tarField(header, 124, 12) || '0', 8);
+    if (Number.isNaN(size)) {
+      throw new Error('Tar archive is corrupt: bad entry size');
+    }
+    const type = String.fromCharCode(header[156] || 0x30);
+    const contentStart = offset + TAR_BLOCK;
+    const content = data.subarray(contentStart, contentStart + size);
+    if (content.length !== size) {
+      throw new Error('Tar archive is truncated');
+    }
+    offset = contentStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longPath = content.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      longPath = paxPath(content) ?? longPath;
+      continue;
+    }
+
+    const prefix = tarField(header, 345, 155);
+    const name = tarField(header, 0, 100);
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = null;
+
+    // Regular files only: directories, links and devices carry nothing to ingest
+    if (type !== '0' && type !== '7') continue;
+
+    totalBytes = checkLimits(entries.length + 1, totalBytes + size, limits);
+    entries.push({ path, data: Buffer.from(content) });
+  }
+
+  return entries;
+}
+
+function checkLimits(entryCount: number, totalBytes: number, limits: ArchiveLimits): number {
+  if (entryCount > limits.maxEntries) {
+    throw new Error(`Archive has more than ${limits.maxEntries} files`);
+  }
+  if (totalBytes > limits.maxBytes) {
+    throw new Error(`Archive unpacks to more than ${limits.maxBytes} bytes`);
+  }
+  return totalBytes;
+}
+
+function tarField(header: Buffer, offset: number, length: number): string {
+  return header.toString('utf8', offset, offset + length).replace(/\0.*$/s, '').trim();
+}
+
+/**
+ * Path from a pax extended header, whose records look like "<length> path=<value>\n"
+ */
+function paxPath(content: Buffer): string | null {
+  for (const record of content.toString('utf8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
@@ -0,0 +1,332 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+
+/**
+ * Segmented uploads for payloads too large to send to 0G Storage in one transaction.
+ *
+ * A payload above the segment size is split into segments that are uploaded one by one,
+ * followed by a small manifest listing each segment's root, size and sha256. The manifest
+ * root stands in for the payload everywhere a root is stored, and download() follows it
+ * back to the segments, reassembling and verifying them on disk.
+ *
+ * Progress is written to the state directory after every segment, keyed by the payload's
+ * sha256 or a resume key from the caller, so uploading the same payload again after a failure
+ * skips the segments that already made it. Encrypted payloads also save the IV of their envelope,
+ * which a retry needs to encrypt to the same bytes. Progress left unused for stateMaxAgeMs is discarded.
+ *
+ * Manifest layout:
+ *
+ *   MAGIC | manifest JSON
+ */
+export const MANIFEST_VERSION = 1;
+
+const MAGIC = Buffer.from('VECT0RMF');
+
+/**
+ * Where segments go: one call per stored object
+ */
+export interface SegmentStore {
+  uploadSegment(filePath: string): Promise<{ root: string; txHash: any }>;
+  // Must write the object to targetPath, which does not exist yet
+  downloadSegment(root: string, targetPath: string): Promise<void>;
+}
+
+export interface ChunkedUploadOptions {
+  segmentSize: number;
+  // Attempts per segment after the first
+  maxRetries: number;
+  // Backoff before retry n is retryDelayMs * 2^(n-1)
+  retryDelayMs: number;
+  // Resumable upload state and segment staging files
+  stateDir: string;
+  stateMaxAgeMs: number;
+}
+
+export interface SegmentRecord {
+  index: number;
+  root: string;
+  size: number;
+  sha256: string;
+}
+
+export interface UploadManifest {
+  version: number;
+  filename: string;
+  size: number;
+  sha256: string;
+  segmentSize: number;
+  segments: SegmentRecord[];
+}
+
+interface UploadState {
+  filename: string;
+  size: number;
+  sha256: string;
+  segmentSize: number;
+  segments: (SegmentRecord | null)[];
+  // IV of the envelope being uploaded, for encrypted payloads
+  iv?: string;
+}
+
+export interface ChunkedUploadResult {
+  // Manifest root for segmented payloads, the payload's own root otherwise
+  root: string;
+  txHash: any;
+  size: number;
+  segments: number;
+  resumedSegments: number;
+}
+
+export class ChunkedUploader {
+  private options: ChunkedUploadOptions;
+
+  constructor(private store: SegmentStore, options: Partial<ChunkedUploadOptions> = {}) {
+    this.options = {
+      ...config.storage.chunkedUpload,
+      stateDir: path.join(config.storage.uploadPath, 'chunked'),
+      ...options,
+    };
+  }
+
+  /**
+   * Whether bytes hold a segment manifest rather than a payload
+   */
+  static isManifest(data: Buffer): boolean {
+    return data.length >= MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  /**
+   * The envelope IV saved with the progress of an upload under resumeKey, or null when there
+   * is no progress to resume
+   */
+  async savedIv(resumeKey: string): Promise<string | null> {
+    const statePath = path.join(this.options.stateDir, `${resumeKey}.json`);
+    try {
+      const saved: UploadState = await fs.readJson(statePath);
+      return saved.iv ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Upload a file, segmented when it is larger than the segment size. Progress is saved under
+   * resumeKey, the payload's sha256 by default; encrypted payloads are keyed by their plaintext
+   * and data key instead, as that is what a retry has at hand before encrypting again, and
+   * pass the IV they were encrypted with to be saved alongside.
+   */
+  async uploadFile(
+    filePath: string,
+    filename: string = path.basename(filePath),
+    resumeKey?: string,
+    iv?: string
+  ): Promise<ChunkedUploadResult> {
+    const { size } = await fs.stat(filePath);
+    if (size <= this.options.segmentSize) {
+      const { root, txHash } = await this.withRetry(`upload of ${filename}`, () => this.store.uploadSegment(filePath));
+      return { root, txHash, size, segments: 1, resumedSegments: 0 };
+    }
+
+    await fs.ensureDir(this.options.stateDir);
+    await this.pruneState();
+    const sha256 = await hashFile(filePath);
+    const statePath = path.join(this.options.stateDir, `${resumeKey ?? sha256}.json`);
+    const state = await this.loadState(statePath, { filename, size, sha256, segmentSize: this.options.segmentSize, iv });
+
+    const segmentCount = Math.ceil(size / this.options.segmentSize);
+    const resumedSegments = state.segments.filter(segment => segment !== null).length;
+    if (resumedSegments > 0) {
+      console.log(`⏯️ Resuming upload of ${filename}: ${resumedSegments}/${segmentCount} segments already stored`);
+    }
+
+    const fd = await fs.open(filePath, 'r');
+    try {
+      for (let index = 0; index < segmentCount; index++) {
+        if (state.segments[index]) continue;
+
+        const offset = index * this.options.segmentSize;
+        const buffer = Buffer.alloc(Math.min(this.options.segmentSize, size - offset));
+        await fs.read(fd, buffer, 0, buffer.length, offset);
+
+        const segmentPath = path.join(this.options.stateDir, `${sha256}.${index}.segment`);
+        try {
+          await fs.writeFile(segmentPath, buffer);
+          const { root } = await this.withRetry(`segment ${index + 1}/${segmentCount} of ${filename}`, () =>
+            this.store.uploadSegment(segmentPath)
+          );
+          state.segments[index] = { index, root, size: buffer.length, sha256: createHash('sha256').update(buffer).digest('hex') };
+        } finally {
+          await fs.remove(segmentPath);
+        }
+
+        // Written after every segment so a crash loses at most the segment in flight
+        await fs.writeJson(`${statePath}.tmp`, state);
+        await fs.move(`${statePath}.tmp`, statePath, { overwrite: true });
+        console.log(`🧩 Stored segment ${index + 1}/${segmentCount} of ${filename}`);
+      }
+    } finally {
+      await fs.close(fd);
+    }
+
+    const manifest: UploadManifest = {
+      version: MANIFEST_VERSION,
+      filename,
+      size,
+      sha256,
+      segmentSize: state.segmentSize,
+      segments: state.segments as SegmentRecord[],
+    };
+    const manifestPath = path.join(this.options.stateDir, `${sha256}.manifest`);
+    try {
+      await fs.writeFile(manifestPath, Buffer.concat([MAGIC, Buffer.from(JSON.stringify(manifest))]));
+      const { root, txHash } = await this.withRetry(`manifest of ${filename}`, () => this.store.uploadSegment(manifestPath));
+      await fs.remove(statePath);
+      return { root, txHash, size, segments: segmentCount, resumedSegments };
+    } finally {
+      await fs.remove(manifestPath);
+    }
+  }
+
+  /**
+   * Download a root to targetPath, reassembling segmented payloads and verifying every
+   * segment and the whole against the manifest
+   */
+  async download(rootHash: string, targetPath: string): Promise<void> {
+    await fs.ensureDir(path.dirname(targetPath));
+    await fs.remove(targetPath);
+
+    const objectPath = `${targetPath}.object`;
+    await fs.remove(objectPath);
+    await this.withRetry(`download of ${rootHash}`, () => this.downloadFresh(rootHash, objectPath));
+
+    const manifest = await readManifest(objectPath);
+    if (!manifest) {
+      await fs.move(objectPath, targetPath);
+      return;
+    }
+    await fs.remove(objectPath);
+
+    const hash = createHash('sha256');
+    try {
+      for (const segment of manifest.segments) {
+        const segmentPath = `${targetPath}.${segment.index}.segment`;
+        try {
+          await this.withRetry(`segment ${segment.index + 1}/${manifest.segments.length} of ${rootHash}`, () =>
+            this.downloadFresh(segment.root, segmentPath)
+          );
+
+          const data = await fs.readFile(segmentPath);
+          if (data.length !== segment.size || createHash('sha256').update(data).digest('hex') !== segment.sha256) {
+            throw new Error(`Segment ${segment.index} of ${rootHash} failed verification`);
+          }
+          hash.update(data);
+          await fs.appendFile(targetPath, data);
+        } finally {
+          await fs.remove(segmentPath);
+        }
+      }
+
+      if (hash.digest('hex') !== manifest.sha256) {
+        throw new Error(`Reassembled payload of ${rootHash} does not match its manifest checksum`);
+      }
+    } catch (error) {
+      await fs.remove(targetPath);
+      throw error;
+    }
+    console.log(`🧩 Reassembled ${manifest.filename} from ${manifest.segments.length} segments (${manifest.size} bytes)`);
+  }
+
+  /**
+   * Saved progress for this payload, or fresh state when there is none or it was written
+   * for different bytes or with a different segment size
+   */
+  private async loadState(statePath: string, fresh: Omit<UploadState, 'segments'>): Promise<UploadState> {
+    if (await fs.pathExists(statePath)) {
+      try {
+        const saved: UploadState = await fs.readJson(statePath);
+        if (saved.segmentSize === fresh.segmentSize && saved.size === fresh.size && saved.sha256 === fresh.sha256) {
+          return { ...saved, filename: fresh.filename };
+        }
+      } catch (error) {
+        console.error(`Error reading upload state ${statePath}, starting over:`, error);
+      }
+    }
+    return { ...fresh, segments: [] };
+  }
+
+  /**
+   * Remove progress and staging files of uploads abandoned longer than stateMaxAgeMs ago
+   */
+  private async pruneState(): Promise<void> {
+    const cutoff = Date.now() - this.options.stateMaxAgeMs;
+    for (const name of await fs.readdir(this.options.stateDir)) {
+      const filePath = path.join(this.options.stateDir, name);
+      try {
+        if ((await fs.stat(filePath)).mtimeMs < cutoff) {
+          await fs.remove(filePath);
+          console.log(`🧹 Removed stale upload state ${name}`);
+        }
+      } catch (error) {
+        // Another upload may have finished with it in the meantime
+      }
+    }
+  }
+
+  /**
+   * Segment downloads refuse to overwrite, so partial files from a failed attempt are cleared first
+   */
+  private async downloadFresh(root: string, targetPath: string): Promise<void> {
+    await fs.remove(targetPath);
+    await this.store.downloadSegment(root, targetPath);
+  }
+
+  private async withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error: any) {
+        if (attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        const delay = this.options.retryDelayMs * 2 ** attempt;
+        console.warn(`⚠️ ${label} failed (attempt ${attempt + 1}/${this.options.maxRetries + 1}), retrying in ${delay}ms: ${error.message || error}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+/**
+ * sha256 of a file, streamed
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * The manifest stored at filePath, or null when it holds a payload. Only the magic is read
+ * for payloads, so large downloads are not loaded just to be told apart.
+ */
+async function readManifest(filePath: string): Promise<UploadManifest | null> {
+  const fd = await fs.open(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(MAGIC.length);
+    const { bytesRead } = await fs.read(fd, magic, 0, MAGIC.length, 0);
+    if (bytesRead < MAGIC.length || !ChunkedUploader.isManifest(magic)) {
+      return null;
+    }
+  } finally {
+    await fs.close(fd);
+  }
+
+  const manifest: UploadManifest = JSON.parse((await fs.readFile(filePath)).subarray(MAGIC.length).toString('utf8'));
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported upload manifest version ${manifest.version}`);
+  }
+  return manifest;
+}
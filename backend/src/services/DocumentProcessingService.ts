@@ -1,17 +1,25 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto-js';
-// @ts-ignore - pdf-parse doesn't have proper type definitions
-import pdf from 'pdf-parse';
 import { EmbeddingService } from './EmbeddingService';
-import { IStorageService } from './StorageInterface';
+import { IStorageService, UploadOptions } from './StorageInterface';
+import type { JobContext } from './IngestionQueue';
+import { TEXT_EXTRACTORS, extractorFor } from './TextExtractors';
+import { chunkMarkdown } from './MarkdownChunker';
+import { chunkSemantically, SemanticBreakpoint, DEFAULT_BREAKPOINT_PERCENTILE } from './SemanticChunker';
 import { config } from '../config';
 
 export interface ChunkingStrategy {
-  type: 'fixed' | 'sentence' | 'paragraph' | 'semantic';
+  type: 'fixed' | 'sentence' | 'paragraph' | 'semantic' | 'markdown' | 'html';
   chunkSize: number;
   overlap: number;
+  // Semantic chunking only: chunks shorter than minChunkSize (default a quarter of chunkSize)
+  // are not ended at a topic shift, and a topic shift is a similarity between adjacent
+  // sentences below breakpointPercentile (0-100) of all of them
+  minChunkSize?: number;
+  breakpointPercentile?: number;
   metadata?: Record<string, any>;
 }
 
@@ -29,15 +37,32 @@ export interface ProcessedDocument {
   id: string;
   filename: string;
   originalSize: number;
+  contentHash: string;
   extractedText: string;
   textLength: number;
   chunks: DocumentChunk[];
   chunkingStrategy: ChunkingStrategy;
+  semanticChunking?: SemanticChunkingReport;
   storageMetadata?: any;
   processingTime: number;
   timestamp: number;
 }
 
+/**
+ * Where semantic chunking split a document, and why
+ */
+export interface SemanticChunkingReport {
+  breakpointPercentile: number;
+  minChunkSize: number;
+  maxChunkSize: number;
+  sentenceCount: number;
+  // Similarity below which adjacent sentences counted as a topic shift
+  threshold: number | null;
+  breakpoints: SemanticBreakpoint[];
+  // Set when sentence embeddings failed and sentence-based chunking was used instead
+  fallback?: string;
+}
+
 export interface UploadedFile {
   filename: string;
   mimetype: string;
@@ -75,21 +100,28 @@ export class DocumentProcessingService {
     file: UploadedFile,
     chunkingStrategy: ChunkingStrategy,
     generateEmbeddings: boolean = true,
-    useZeroGCompute: boolean = false
+    useZeroGCompute: boolean = false,
+    reusableEmbeddings: Map<string, number[]> = new Map(),
+    context?: JobContext
   ): Promise<ProcessedDocument> {
     const startTime = Date.now();
     console.log(`📄 Processing document: ${file.filename} (${file.size} bytes)`);
 
     try {
       // Extract text from document
-      const extractedText = await this.extractText(file);
+      context?.startStage('extracting');
+      const extractedText = await this.extractText(file, chunkingStrategy.type === 'markdown' || chunkingStrategy.type === 'html');
       
       // Generate document chunks
-      const chunks = await this.chunkDocument(extractedText, chunkingStrategy);
+      context?.startStage('chunking');
+      const { chunks, semanticChunking } = await this.chunkDocument(extractedText, chunkingStrategy, context);
+      for (const chunk of chunks) {
+        chunk.metadata.chunkHash = DocumentProcessingService.hashContent(chunk.text);
+      }
       
       // Generate embeddings if requested
       if (generateEmbeddings) {
-        await this.generateEmbeddingsForChunks(chunks, useZeroGCompute);
+        await this.generateEmbeddingsForChunks(chunks, useZeroGCompute, reusableEmbeddings, context);
       }
 
       // Create processed document result
@@ -97,87 +129,57 @@ export class DocumentProcessingService {
         id: uuidv4(),
         filename: file.filename,
         originalSize: file.size,
+        contentHash: DocumentProcessingService.hashContent(file.buffer),
         extractedText,
         textLength: extractedText.length,
         chunks,
         chunkingStrategy,
+        semanticChunking,
         processingTime: Date.now() - startTime,
         timestamp: Date.now(),
       };
 
-      // Optionally store in 0G Storage
-      try {
-        if (this.storageService) {
-          const storageMetadata = await this.storeInZeroG(processedDoc);
-          processedDoc.storageMetadata = storageMetadata;
-          console.log(`💾 Document stored in 0G Storage with root: ${storageMetadata.root}`);
-        }
-      } catch (storageError) {
-        console.warn('Failed to store in 0G Storage:', storageError);
-      }
-
       console.log(`✅ Document processed in ${processedDoc.processingTime}ms: ${chunks.length} chunks created`);
       return processedDoc;
 
     } catch (error) {
+      if (context?.signal.aborted) {
+        throw error;
+      }
       console.error('Error processing document:', error);
       throw new Error(`Failed to process document ${file.filename}: ${error}`);
     }
   }
 
   /**
-   * Extract text from various document types
+   * Extract text with the extractor registered for the file's type, as Markdown when the
+   * chunking strategy needs the document's structure and the extractor can provide it
    */
-  private async extractText(file: UploadedFile): Promise<string> {
+  private async extractText(file: UploadedFile, structured: boolean = false): Promise<string> {
     const mimeType = file.mimetype.toLowerCase();
+    const extractor = extractorFor(mimeType, file.filename);
     
-    console.log(`🔍 Extracting text from ${mimeType} file...`);
+    console.log(`🔍 Extracting text from ${extractor?.format ?? mimeType} file...`);
 
     try {
-      switch (mimeType) {
-        case 'application/pdf':
-          return await this.extractTextFromPDF(file.buffer);
-        
-        case 'text/plain':
-        case 'text/markdown':
-          return file.buffer.toString('utf-8');
-        
-        case 'application/json':
-          const jsonData = JSON.parse(file.buffer.toString('utf-8'));
-          return JSON.stringify(jsonData, null, 2);
-        
-        default:
-          // Try to read as text for unknown types
-          const text = file.buffer.toString('utf-8');
-          if (text.length > 0 && this.isValidText(text)) {
-            console.warn(`Unknown file type ${mimeType}, treating as text`);
-            return text;
-          }
-          throw new Error(`Unsupported file type: ${mimeType}`);
+      if (!extractor) {
+        // Try to read as text for unknown types
+        const text = file.buffer.toString('utf-8');
+        if (text.length > 0 && this.isValidText(text)) {
+          console.warn(`Unknown file type ${mimeType}, treating as text`);
+          return text;
+        }
+        throw new Error(`Unsupported file type: ${mimeType}`);
       }
-    } catch (error) {
-      console.error(`Error extracting text from ${mimeType}:`, error);
-      throw error;
-    }
-  }
 
-  /**
-   * Extract text from PDF buffer
-   */
-  private async extractTextFromPDF(buffer: Buffer): Promise<string> {
-    try {
-      const data = await pdf(buffer);
-      const text = data.text;
-      
-      if (!text || text.length === 0) {
-        throw new Error('No text content found in PDF');
-      }
-      
-      console.log(`📖 Extracted ${text.length} characters from PDF`);
+      const text = structured && extractor.extractMarkdown
+        ? await extractor.extractMarkdown(file.buffer)
+        : await extractor.extract(file.buffer);
+      console.log(`📖 Extracted ${text.length} characters from ${extractor.format}`);
       return text;
     } catch (error) {
-      console.error('Error parsing PDF:', error);
-      throw new Error(`Failed to extract text from PDF: ${error}`);
+      console.error(`Error extracting text from ${mimeType}:`, error);
+      throw error;
     }
   }
 
@@ -196,25 +198,33 @@ export class DocumentProcessingService {
   /**
    * Chunk document using specified strategy
    */
-  private async chunkDocument(text: string, strategy: ChunkingStrategy): Promise<DocumentChunk[]> {
+  private async chunkDocument(
+    text: string,
+    strategy: ChunkingStrategy,
+    context?: JobContext
+  ): Promise<{ chunks: DocumentChunk[]; semanticChunking?: SemanticChunkingReport }> {
     console.log(`✂️ Chunking document using ${strategy.type} strategy...`);
 
     switch (strategy.type) {
       case 'fixed':
-        return this.fixedSizeChunking(text, strategy);
+        return { chunks: this.fixedSizeChunking(text, strategy) };
       
       case 'sentence':
-        return this.sentenceBasedChunking(text, strategy);
+        return { chunks: this.sentenceBasedChunking(text, strategy) };
       
       case 'paragraph':
-        return this.paragraphBasedChunking(text, strategy);
+        return { chunks: this.paragraphBasedChunking(text, strategy) };
       
       case 'semantic':
-        return this.semanticChunking(text, strategy);
+        return this.semanticChunking(text, strategy, context);
+      
+      case 'markdown':
+      case 'html':
+        return { chunks: this.structureAwareChunking(text, strategy) };
       
       default:
         console.warn(`Unknown chunking strategy: ${strategy.type}, using fixed size`);
-        return this.fixedSizeChunking(text, strategy);
+        return { chunks: this.fixedSizeChunking(text, strategy) };
     }
   }
 
@@ -381,44 +391,142 @@ export class DocumentProcessingService {
   }
 
   /**
-   * Semantic chunking (simplified implementation)
+   * Chunking along Markdown structure, with each chunk's heading breadcrumb in its metadata.
+   * HTML arrives here already converted to Markdown.
    */
-  private async semanticChunking(text: string, strategy: ChunkingStrategy): Promise<DocumentChunk[]> {
-    // For now, use sentence-based chunking as a base
-    // In a full implementation, this would use semantic similarity to group related sentences
-    console.log('📊 Using semantic chunking (simplified as sentence-based for now)');
-    return this.sentenceBasedChunking(text, strategy);
+  private structureAwareChunking(text: string, strategy: ChunkingStrategy): DocumentChunk[] {
+    return chunkMarkdown(text, strategy.chunkSize).map((chunk, chunkIndex) => ({
+      id: uuidv4(),
+      text: chunk.text,
+      startIndex: chunk.startIndex,
+      endIndex: chunk.endIndex,
+      chunkIndex,
+      metadata: {
+        chunkingStrategy: strategy.type,
+        chunkSize: strategy.chunkSize,
+        headingPath: chunk.headingPath,
+        breadcrumb: chunk.headingPath.join(' > '),
+        blockTypes: chunk.blockTypes,
+        ...strategy.metadata
+      }
+    }));
+  }
+
+  /**
+   * Semantic chunking: sentences are embedded and chunks end where adjacent sentences are
+   * least similar, within the size limits. Falls back to sentence-based chunking when the
+   * sentences cannot be embedded.
+   */
+  private async semanticChunking(
+    text: string,
+    strategy: ChunkingStrategy,
+    context?: JobContext
+  ): Promise<{ chunks: DocumentChunk[]; semanticChunking: SemanticChunkingReport }> {
+    const options = {
+      maxChunkSize: strategy.chunkSize,
+      minChunkSize: strategy.minChunkSize ?? Math.floor(strategy.chunkSize / 4),
+      breakpointPercentile: strategy.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE,
+    };
+
+    try {
+      const result = await chunkSemantically(text, async sentence => {
+        context?.checkCancelled();
+        return (await this.embeddingService.generateEmbedding(sentence)).vector;
+      }, options);
+      console.log(`📊 Semantic chunking found ${result.breakpoints.length} breakpoints in ${result.sentenceCount} sentences`);
+
+      const chunks = result.chunks.map((chunk, chunkIndex) => ({
+        id: uuidv4(),
+        text: chunk.text,
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        chunkIndex,
+        metadata: {
+          chunkingStrategy: strategy.type,
+          sentenceCount: chunk.sentenceCount,
+          ...strategy.metadata
+        }
+      }));
+      return {
+        chunks,
+        semanticChunking: { ...options, sentenceCount: result.sentenceCount, threshold: result.threshold, breakpoints: result.breakpoints }
+      };
+    } catch (error: any) {
+      if (context?.signal.aborted) {
+        throw error;
+      }
+      console.warn('⚠️ Could not embed sentences for semantic chunking, using sentence-based chunking:', error);
+      return {
+        chunks: this.sentenceBasedChunking(text, strategy),
+        semanticChunking: { ...options, sentenceCount: 0, threshold: null, breakpoints: [], fallback: error.message || String(error) }
+      };
+    }
   }
 
   /**
    * Generate embeddings for chunks
    */
-  private async generateEmbeddingsForChunks(chunks: DocumentChunk[], useZeroGCompute: boolean): Promise<void> {
+  private async generateEmbeddingsForChunks(
+    chunks: DocumentChunk[],
+    useZeroGCompute: boolean,
+    reusableEmbeddings: Map<string, number[]>,
+    context?: JobContext
+  ): Promise<void> {
     console.log(`🧮 Generating embeddings for ${chunks.length} chunks...`);
+    context?.startStage('embedding', chunks.length);
     
     for (const chunk of chunks) {
+      context?.checkCancelled();
+
+      // Unchanged chunks keep the embedding they already have in the collection
+      const reused = reusableEmbeddings.get(chunk.metadata.chunkHash);
+      if (reused) {
+        chunk.embedding = reused;
+        chunk.metadata.reusedEmbedding = true;
+        context?.chunkDone(chunk.chunkIndex);
+        continue;
+      }
+
       try {
         const embeddingResponse = await this.embeddingService.generateEmbedding(chunk.text);
         chunk.embedding = embeddingResponse.vector;
         chunk.metadata.embeddingModel = embeddingResponse.model;
         chunk.metadata.tokens = embeddingResponse.tokens;
+        context?.chunkDone(chunk.chunkIndex);
       } catch (error: any) {
         console.error(`Error generating embedding for chunk ${chunk.id}:`, error);
         chunk.metadata.embeddingError = error.message;
+        context?.chunkDone(chunk.chunkIndex, error.message);
       }
     }
     
     console.log(`✅ Generated embeddings for ${chunks.filter(c => c.embedding).length}/${chunks.length} chunks`);
   }
 
+  /**
+   * Store a processed document in 0G Storage, encrypted with the collection's data key when
+   * encryption is enabled. Failures are logged; the document stays usable locally.
+   */
+  async storeDocument(document: ProcessedDocument, options: UploadOptions = {}): Promise<void> {
+    try {
+      if (this.storageService) {
+        const storageMetadata = await this.storeInZeroG(document, options);
+        document.storageMetadata = storageMetadata;
+        console.log(`💾 Document stored in 0G Storage with root: ${storageMetadata.root}`);
+      }
+    } catch (storageError) {
+      console.warn('Failed to store in 0G Storage:', storageError);
+    }
+  }
+
   /**
    * Store processed document in 0G Storage
    */
-  private async storeInZeroG(document: ProcessedDocument): Promise<any> {
+  private async storeInZeroG(document: ProcessedDocument, options: UploadOptions): Promise<any> {
     const documentData = JSON.stringify(document, null, 2);
     const filename = `processed_${document.id}.json`;
     
-    return await this.storageService.uploadData(documentData, filename);
+    return await this.storageService.uploadData(documentData, filename, options);
   }
 
   // Utility methods
@@ -438,13 +546,29 @@ export class DocumentProcessingService {
     return overlap.trim();
   }
 
+  /**
+   * MIME type implied by a file's extension
+   */
+  static mimeTypeFor(filename: string): string {
+    return extractorFor('', filename)?.mimeTypes[0] || 'application/octet-stream';
+  }
+
+  /**
+   * SHA-256 hex digest used to recognise previously ingested files and chunks
+   */
+  static hashContent(content: Buffer | string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
   /**
    * Get processing statistics
    */
   getStats() {
     return {
-      supportedFormats: ['application/pdf', 'text/plain', 'text/markdown', 'application/json'],
-      chunkingStrategies: ['fixed', 'sentence', 'paragraph', 'semantic'],
+      // Listed from the registered extractors, so only formats that can be extracted are advertised
+      supportedFormats: TEXT_EXTRACTORS.flatMap(extractor => extractor.mimeTypes),
+      supportedExtensions: TEXT_EXTRACTORS.flatMap(extractor => extractor.extensions),
+      chunkingStrategies: ['fixed', 'sentence', 'paragraph', 'semantic', 'markdown', 'html'],
       uploadPath: config.storage.uploadPath,
       maxFileSize: config.storage.maxFileSize
     };
@@ -454,10 +578,12 @@ export class DocumentProcessingService {
    * Validate chunking strategy
    */
   static validateChunkingStrategy(strategy: ChunkingStrategy): boolean {
-    const validTypes = ['fixed', 'sentence', 'paragraph', 'semantic'];
+    const validTypes = ['fixed', 'sentence', 'paragraph', 'semantic', 'markdown', 'html'];
     return validTypes.includes(strategy.type) && 
            strategy.chunkSize > 0 && 
            strategy.overlap >= 0 && 
-           strategy.overlap < strategy.chunkSize;
+           strategy.overlap < strategy.chunkSize &&
+           (strategy.minChunkSize === undefined || (strategy.minChunkSize >= 0 && strategy.minChunkSize <= strategy.chunkSize)) &&
+           (strategy.breakpointPercentile === undefined || (strategy.breakpointPercentile >= 0 && strategy.breakpointPercentile <= 100));
   }
 }
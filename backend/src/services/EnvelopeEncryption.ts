@@ -0,0 +1,204 @@
+import * as fs from 'fs-extra';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+
+/**
+ * AES-256-GCM envelope encryption for data written to 0G Storage.
+ *
+ * Each collection gets its own random data key. Data keys are never stored in the clear:
+ * they are wrapped (encrypted) with a key-encryption key derived from ENCRYPTION_MASTER_KEY,
+ * and the wrapped key travels inside every envelope, so any node configured with the same
+ * master key can decrypt a download without further lookups.
+ *
+ * Envelope layout:
+ *
+ *   MAGIC | header length (uint32 LE) | header JSON | ciphertext | GCM tag (16 bytes)
+ *
+ * The tag sits at the end so files can be encrypted as a stream.
+ *
+ * Every envelope gets a random IV, so equal plaintexts never produce equal envelopes. An upload
+ * that must encrypt the same payload again to resume passes in the IV it saved with its progress.
+ */
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = 'aes-256-gcm';
+
+const MAGIC = Buffer.from('VECT0REN');
+const HEADER_LENGTH_BYTES = 4;
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEK_SALT = 'vector-db-0g/key-encryption-key';
+
+/**
+ * A data key in wrapped form, safe to keep in collection metadata
+ */
+export interface DataKey {
+  keyId: string;
+  // Fingerprint of the key-encryption key that wrapped it
+  kekId: string;
+  // iv | tag | encrypted key, base64
+  wrappedKey: string;
+}
+
+interface EnvelopeHeader extends DataKey {
+  version: number;
+  algorithm: string;
+  iv: string;
+}
+
+export class EnvelopeEncryption {
+  readonly kekId: string;
+  private kek: Buffer;
+
+  constructor(masterKey: string) {
+    if (!masterKey) {
+      throw new Error('A master key is required for envelope encryption');
+    }
+    this.kek = scryptSync(masterKey, KEK_SALT, KEY_BYTES);
+    this.kekId = createHash('sha256').update(this.kek).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Encryption configured for this node, or null when ENCRYPTION_MASTER_KEY is unset
+   */
+  static fromConfig(): EnvelopeEncryption | null {
+    return config.encryption.masterKey ? new EnvelopeEncryption(config.encryption.masterKey) : null;
+  }
+
+  /**
+   * Whether bytes hold an envelope rather than plaintext
+   */
+  static isEnvelope(data: Buffer): boolean {
+    return data.length >= MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  /**
+   * Generate a random data key, returned wrapped
+   */
+  createDataKey(): DataKey {
+    const key = randomBytes(KEY_BYTES);
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ENVELOPE_ALGORITHM, this.kek, iv);
+    const encrypted = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    return {
+      keyId: `dk_${randomBytes(8).toString('hex')}`,
+      kekId: this.kekId,
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+    };
+  }
+
+  /**
+   * Whether a data key was wrapped by this node's key-encryption key
+   */
+  canUnwrap(dataKey: DataKey): boolean {
+    return dataKey.kekId === this.kekId;
+  }
+
+  /**
+   * A fresh random IV, base64 as it appears in envelope headers
+   */
+  static createIv(): string {
+    return randomBytes(IV_BYTES).toString('base64');
+  }
+
+  /**
+   * Encrypt a buffer into an envelope. Without a data key a one-off key is generated, and
+   * without an IV a random one is used.
+   */
+  encrypt(data: Buffer, dataKey: DataKey = this.createDataKey(), iv: string = EnvelopeEncryption.createIv()): Buffer {
+    const { header, cipher } = this.startEnvelope(dataKey, iv);
+    return Buffer.concat([header, cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  /**
+   * Stream a file into an encrypted copy, so large snapshots are not buffered
+   */
+  async encryptFile(
+    sourcePath: string,
+    targetPath: string,
+    dataKey: DataKey = this.createDataKey(),
+    iv: string = EnvelopeEncryption.createIv()
+  ): Promise<void> {
+    const { header, cipher } = this.startEnvelope(dataKey, iv);
+    await fs.writeFile(targetPath, header);
+    await pipeline(fs.createReadStream(sourcePath), cipher, fs.createWriteStream(targetPath, { flags: 'a' }));
+    await fs.appendFile(targetPath, cipher.getAuthTag());
+  }
+
+  /**
+   * Decrypt an envelope, verifying its authentication tag
+   */
+  decrypt(envelope: Buffer): Buffer {
+    if (!EnvelopeEncryption.isEnvelope(envelope) || envelope.length < MAGIC.length + HEADER_LENGTH_BYTES + TAG_BYTES) {
+      throw new Error('Not an encrypted envelope');
+    }
+
+    const headerLength = envelope.readUInt32LE(MAGIC.length);
+    const headerStart = MAGIC.length + HEADER_LENGTH_BYTES;
+    const bodyStart = headerStart + headerLength;
+    if (bodyStart > envelope.length - TAG_BYTES) {
+      throw new Error('Encrypted envelope header is truncated');
+    }
+
+    const header = JSON.parse(envelope.subarray(headerStart, bodyStart).toString('utf-8')) as EnvelopeHeader;
+    if (header.version !== ENVELOPE_VERSION || header.algorithm !== ENVELOPE_ALGORITHM) {
+      throw new Error(`Unsupported envelope ${header.algorithm} version ${header.version}`);
+    }
+
+    const decipher = createDecipheriv(ENVELOPE_ALGORITHM, this.unwrap(header), Buffer.from(header.iv, 'base64'));
+    decipher.setAuthTag(envelope.subarray(envelope.length - TAG_BYTES));
+    try {
+      return Buffer.concat([decipher.update(envelope.subarray(bodyStart, envelope.length - TAG_BYTES)), decipher.final()]);
+    } catch (error) {
+      throw new Error(`Encrypted envelope failed authentication (data key ${header.keyId})`);
+    }
+  }
+
+  private startEnvelope(dataKey: DataKey, iv: string) {
+    const ivBytes = Buffer.from(iv, 'base64');
+    if (ivBytes.length !== IV_BYTES) {
+      throw new Error(`Envelope IV must be ${IV_BYTES} bytes`);
+    }
+    const cipher = createCipheriv(ENVELOPE_ALGORITHM, this.unwrap(dataKey), ivBytes);
+
+    const header: EnvelopeHeader = {
+      version: ENVELOPE_VERSION,
+      algorithm: ENVELOPE_ALGORITHM,
+      keyId: dataKey.keyId,
+      kekId: dataKey.kekId,
+      wrappedKey: dataKey.wrappedKey,
+      iv,
+    };
+    const headerBytes = Buffer.from(JSON.stringify(header));
+    const headerLength = Buffer.alloc(HEADER_LENGTH_BYTES);
+    headerLength.writeUInt32LE(headerBytes.length);
+
+    return { header: Buffer.concat([MAGIC, headerLength, headerBytes]), cipher };
+  }
+
+  private unwrap(dataKey: DataKey): Buffer {
+    if (!this.canUnwrap(dataKey)) {
+      throw new Error(`Data key ${dataKey.keyId} was wrapped by key-encryption key ${dataKey.kekId}, this node uses ${this.kekId}`);
+    }
+
+    const wrapped = Buffer.from(dataKey.wrappedKey, 'base64');
+    const decipher = createDecipheriv(ENVELOPE_ALGORITHM, this.kek, wrapped.subarray(0, IV_BYTES));
+    decipher.setAuthTag(wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(wrapped.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  }
+}
+
+/**
+ * Return downloaded bytes as plaintext, decrypting envelopes written by encrypted uploads
+ */
+export function openDownload(encryption: EnvelopeEncryption | null, data: Buffer, rootHash: string): Buffer {
+  if (!EnvelopeEncryption.isEnvelope(data)) {
+    return data;
+  }
+  if (!encryption) {
+    throw new Error(`Data at ${rootHash} is encrypted but ENCRYPTION_MASTER_KEY is not set`);
+  }
+  return encryption.decrypt(data);
+}
@@ -0,0 +1,82 @@
+import { IStorageService, UploadOptions } from './StorageInterface';
+import { EnvelopeEncryption, openDownload } from './EnvelopeEncryption';
+import { contentRoot } from './LocalFileStorage';
+
+/**
+ * Content-addressed storage held in process memory, with the same semantics as
+ * LocalFileStorage. Everything is lost on restart, which suits tests and throwaway nodes.
+ */
+export class InMemoryStorage implements IStorageService {
+  private objects: Map<string, Buffer> = new Map();
+  private encryption: EnvelopeEncryption | null;
+
+  constructor() {
+    this.encryption = EnvelopeEncryption.fromConfig();
+  }
+
+  async uploadData(data: Buffer | string, filename: string, options: UploadOptions = {}): Promise<any> {
+    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const stored = this.encryption ? this.encryption.encrypt(dataBuffer, options.dataKey) : dataBuffer;
+    const root = contentRoot(stored);
+
+    // Copied so later changes to the caller's buffer cannot alter stored content
+    if (!this.objects.has(root)) {
+      this.objects.set(root, Buffer.from(stored));
+    }
+
+    return {
+      root,
+      size: dataBuffer.length,
+      timestamp: Date.now(),
+      txHash: null,
+      storageProof: 'in-memory',
+      filename,
+      encrypted: !!this.encryption,
+      keyId: this.encryption ? options.dataKey?.keyId ?? null : undefined,
+      network: 'memory',
+    };
+  }
+
+  async downloadData(rootHash: string): Promise<Buffer> {
+    const data = this.objects.get(rootHash.toLowerCase());
+    if (!data) {
+      throw new Error(`No data stored under root ${rootHash}`);
+    }
+
+    return openDownload(this.encryption, Buffer.from(data), rootHash);
+  }
+
+  async uploadVectorCollection(collectionId: string, vectors: any[], metadata: Record<string, any>): Promise<any> {
+    const collectionData = {
+      collectionId,
+      metadata,
+      vectors: vectors.map(v => ({ id: v.id, embedding: v.embedding, metadata: v.metadata })),
+      timestamp: Date.now(),
+      totalVectors: vectors.length,
+    };
+
+    const result = await this.uploadData(JSON.stringify(collectionData, null, 2), `collection_${collectionId}.json`);
+    return { ...result, collectionId, vectorCount: vectors.length, collectionMetadata: metadata };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async getNetworkStatus(): Promise<any> {
+    return { network: 'memory', encrypted: !!this.encryption };
+  }
+
+  async getReal0GStats(): Promise<any> {
+    const bytes = Array.from(this.objects.values()).reduce((sum, data) => sum + data.length, 0);
+    return {
+      real0g: {
+        connected: true,
+        network: 'memory',
+        objects: this.objects.size,
+        bytes,
+        storageType: 'in-memory',
+      },
+    };
+  }
+}
@@ -0,0 +1,322 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type IngestionStage = 'extracting' | 'chunking' | 'embedding' | 'storing' | 'indexing' | 'syncing';
+
+export const INGESTION_STAGES: IngestionStage[] = ['extracting', 'chunking', 'embedding', 'storing', 'indexing', 'syncing'];
+
+export type StageState = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface StageProgress {
+  state: StageState;
+  // Items done and expected, for stages that work chunk by chunk
+  completed?: number;
+  total?: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface ChunkError {
+  // Set for jobs that ingest several files
+  filename?: string;
+  stage: IngestionStage;
+  chunkIndex: number;
+  error: string;
+}
+
+export interface FileProgress {
+  total: number;
+  // Files finished, whether they succeeded or not
+  completed: number;
+  current: string | null;
+}
+
+export interface IngestionJob {
+  id: string;
+  status: IngestionJobStatus;
+  filename: string;
+  size: number;
+  // Stage currently running, or the one that failed
+  stage: IngestionStage | null;
+  // For jobs that ingest several files, these are the stages of the file being processed
+  stages: Record<IngestionStage, StageProgress>;
+  files?: FileProgress;
+  // Chunks that failed without failing the job, e.g. a chunk whose embedding could not be generated
+  chunkErrors: ChunkError[];
+  attempts: number;
+  // Set when a running job was asked to stop; it does so at the next cancellation point
+  cancelRequested: boolean;
+  result?: any;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface IngestionQueueOptions {
+  // Jobs processed at the same time
+  concurrency: number;
+  // Jobs allowed to wait for a worker before enqueue is refused
+  maxQueuedJobs: number;
+  // Finished jobs are forgotten this long after they end
+  jobRetentionMs: number;
+}
+
+/**
+ * Handed to the job processor to report progress and honour cancellation
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  // Move on to the next of several files, resetting stage progress for it
+  startFile(filename: string, total: number): void;
+  // Start a stage, completing the previous one; total enables per-chunk progress
+  startStage(stage: IngestionStage, total?: number): void;
+  // One chunk of the running stage is done, recorded as a chunk error when it failed
+  chunkDone(chunkIndex: number, error?: string): void;
+  // Throw if cancellation was requested; processors call this wherever stopping is still safe
+  checkCancelled(): void;
+}
+
+export type JobProcessor<T> = (input: T, context: JobContext) => Promise<any>;
+
+interface QueueEntry<T> {
+  job: IngestionJob;
+  // Kept until the job completes so failed and cancelled jobs can be retried
+  input: T | null;
+  controller: AbortController | null;
+}
+
+/**
+ * Bounded in-process queue for document ingestion. Jobs wait in FIFO order for one of a
+ * fixed number of workers, report stage-by-stage progress while they run, and stay
+ * queryable for a while after they finish.
+ */
+export class IngestionQueue<T> {
+  private entries: Map<string, QueueEntry<T>> = new Map();
+  private pending: string[] = [];
+  private running = 0;
+  private options: IngestionQueueOptions;
+
+  constructor(private processor: JobProcessor<T>, options: Partial<IngestionQueueOptions> = {}) {
+    this.options = { ...config.ingestion, ...options };
+  }
+
+  /**
+   * Whether enqueue would be refused because too many jobs are already waiting
+   */
+  isFull(): boolean {
+    return this.pending.length >= this.options.maxQueuedJobs;
+  }
+
+  enqueue(input: T, details: { filename: string; size: number }): IngestionJob {
+    if (this.isFull()) {
+      throw new Error(`Ingestion queue is full (${this.options.maxQueuedJobs} jobs waiting)`);
+    }
+    this.prune();
+
+    const job: IngestionJob = {
+      id: uuidv4(),
+      status: 'queued',
+      filename: details.filename,
+      size: details.size,
+      stage: null,
+      stages: freshStages(),
+      chunkErrors: [],
+      attempts: 0,
+      cancelRequested: false,
+      createdAt: Date.now(),
+    };
+    this.entries.set(job.id, { job, input, controller: null });
+    this.pending.push(job.id);
+    console.log(`📥 Queued ingestion job ${job.id} for ${job.filename} (${this.pending.length} waiting)`);
+
+    this.pump();
+    return job;
+  }
+
+  getJob(jobId: string): IngestionJob | undefined {
+    this.prune();
+    return this.entries.get(jobId)?.job;
+  }
+
+  /**
+   * All known jobs, newest first
+   */
+  listJobs(): IngestionJob[] {
+    this.prune();
+    return Array.from(this.entries.values())
+      .map(entry => entry.job)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Cancel a queued job, or ask a running one to stop. Returns false for jobs that have
+   * already finished.
+   */
+  cancel(jobId: string): boolean {
+    const entry = this.entries.get(jobId);
+    if (!entry) return false;
+
+    if (entry.job.status === 'queued') {
+      this.pending = this.pending.filter(id => id !== jobId);
+      this.finish(entry, 'cancelled');
+      console.log(`🛑 Cancelled queued ingestion job ${jobId}`);
+      return true;
+    }
+    if (entry.job.status === 'running') {
+      entry.job.cancelRequested = true;
+      entry.controller?.abort(new Error('Job cancelled'));
+      console.log(`🛑 Cancellation requested for ingestion job ${jobId}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Queue a failed or cancelled job again from the start. Returns false for jobs in any
+   * other state, and when the queue is full.
+   */
+  retry(jobId: string): boolean {
+    const entry = this.entries.get(jobId);
+    if (!entry || !entry.input || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) {
+      return false;
+    }
+    if (this.isFull()) {
+      return false;
+    }
+
+    Object.assign(entry.job, {
+      status: 'queued',
+      stage: null,
+      stages: freshStages(),
+      files: undefined,
+      chunkErrors: [],
+      cancelRequested: false,
+      result: undefined,
+      error: undefined,
+      startedAt: undefined,
+      finishedAt: undefined,
+    });
+    this.pending.push(jobId);
+    console.log(`🔁 Retrying ingestion job ${jobId}`);
+
+    this.pump();
+    return true;
+  }
+
+  getStats() {
+    const counts: Record<IngestionJobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    for (const { job } of this.entries.values()) {
+      counts[job.status]++;
+    }
+    return { ...counts, concurrency: this.options.concurrency, maxQueuedJobs: this.options.maxQueuedJobs };
+  }
+
+  private pump(): void {
+    while (this.running < this.options.concurrency && this.pending.length > 0) {
+      const entry = this.entries.get(this.pending.shift()!);
+      if (entry) {
+        this.running++;
+        this.run(entry).finally(() => {
+          this.running--;
+          this.pump();
+        });
+      }
+    }
+  }
+
+  private async run(entry: QueueEntry<T>): Promise<void> {
+    const { job } = entry;
+    const controller = new AbortController();
+    entry.controller = controller;
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = Date.now();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      startFile: (filename, total) => {
+        const completed = job.files ? job.files.completed + 1 : 0;
+        job.files = { total, completed, current: filename };
+        job.stage = null;
+        job.stages = freshStages();
+      },
+      startStage: (stage, total) => {
+        if (job.stage) {
+          Object.assign(job.stages[job.stage], { state: 'completed', finishedAt: Date.now() });
+        }
+        job.stage = stage;
+        job.stages[stage] = { state: 'running', startedAt: Date.now(), ...(total !== undefined ? { completed: 0, total } : {}) };
+      },
+      chunkDone: (chunkIndex, error) => {
+        if (!job.stage) return;
+        const progress = job.stages[job.stage];
+        progress.completed = (progress.completed ?? 0) + 1;
+        if (error) {
+          job.chunkErrors.push({ ...(job.files ? { filename: job.files.current! } : {}), stage: job.stage, chunkIndex, error });
+        }
+      },
+      checkCancelled: () => controller.signal.throwIfAborted(),
+    };
+
+    try {
+      job.result = await this.processor(entry.input!, context);
+      this.finish(entry, 'completed');
+      // Nothing left to retry, so the upload itself can be released
+      entry.input = null;
+      console.log(`✅ Ingestion job ${job.id} completed`);
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        this.finish(entry, 'cancelled');
+        console.log(`🛑 Ingestion job ${job.id} cancelled during ${job.stage ?? 'startup'}`);
+      } else {
+        job.error = error.message || String(error);
+        this.finish(entry, 'failed');
+        console.error(`❌ Ingestion job ${job.id} failed during ${job.stage ?? 'startup'}:`, error);
+      }
+    } finally {
+      entry.controller = null;
+    }
+  }
+
+  /**
+   * Settle the job and its stages: the running stage completes or fails with the job, and
+   * stages that never ran are marked skipped
+   */
+  private finish(entry: QueueEntry<T>, status: IngestionJobStatus): void {
+    const { job } = entry;
+    const now = Date.now();
+    job.status = status;
+    job.finishedAt = now;
+
+    for (const stage of INGESTION_STAGES) {
+      const progress = job.stages[stage];
+      if (progress.state === 'running') {
+        Object.assign(progress, { state: status === 'completed' ? 'completed' : 'failed', finishedAt: now });
+      } else if (progress.state === 'pending') {
+        progress.state = 'skipped';
+      }
+    }
+    if (status === 'completed') {
+      job.stage = null;
+      if (job.files) {
+        job.files = { ...job.files, completed: job.files.total, current: null };
+      }
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.jobRetentionMs;
+    for (const [jobId, { job }] of this.entries) {
+      if (job.finishedAt !== undefined && job.finishedAt < cutoff) {
+        this.entries.delete(jobId);
+      }
+    }
+  }
+}
+
+function freshStages(): Record<IngestionStage, StageProgress> {
+  return Object.fromEntries(INGESTION_STAGES.map(stage => [stage, { state: 'pending' }])) as Record<IngestionStage, StageProgress>;
+}
@@ -0,0 +1,167 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+import { IStorageService, UploadOptions } from './StorageInterface';
+import { EnvelopeEncryption, openDownload } from './EnvelopeEncryption';
+
+const ROOT_PATTERN = /^0x[0-9a-f]{64}$/;
+
+/**
+ * Content address of stored bytes: sha256 as 0x-prefixed hex, the same shape as a 0G root hash
+ */
+export function contentRoot(data: Buffer): string {
+  return `0x${createHash('sha256').update(data).digest('hex')}`;
+}
+
+/**
+ * Content-addressed storage on the local filesystem, for running the ingest and export
+ * flow offline. Objects are written once under their sha256 root, so uploading the same
+ * bytes twice is a no-op, and encryption behaves exactly as it does for 0G uploads.
+ */
+export class LocalFileStorage implements IStorageService {
+  private rootDir: string;
+  private encryption: EnvelopeEncryption | null;
+
+  constructor(rootDir: string = config.storage.localPath) {
+    this.rootDir = path.resolve(rootDir);
+    fs.ensureDirSync(this.rootDir);
+    this.encryption = EnvelopeEncryption.fromConfig();
+    console.log(`📁 Local file storage at ${this.rootDir}${this.encryption ? ' (encrypted)' : ''}`);
+  }
+
+  async uploadData(data: Buffer | string, filename: string, options: UploadOptions = {}): Promise<any> {
+    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const stored = this.encryption ? this.encryption.encrypt(dataBuffer, options.dataKey) : dataBuffer;
+    const root = contentRoot(stored);
+
+    const objectPath = this.objectPath(root);
+    if (!(await fs.pathExists(objectPath))) {
+      // Written beside the final path and renamed, so a crash never leaves a partial object
+      await fs.ensureDir(path.dirname(objectPath));
+      await fs.writeFile(`${objectPath}.tmp`, stored);
+      await fs.move(`${objectPath}.tmp`, objectPath, { overwrite: true });
+    }
+
+    console.log(`📤 Stored ${filename} locally (${dataBuffer.length} bytes) with root ${root}`);
+    return this.uploadResult(root, dataBuffer.length, filename, options);
+  }
+
+  /**
+   * Store a file without reading it into memory
+   */
+  async uploadFile(filePath: string, options: UploadOptions = {}): Promise<any> {
+    const stagingPath = path.join(this.rootDir, `upload_${Date.now()}_${path.basename(filePath)}.tmp`);
+
+    try {
+      if (this.encryption) {
+        await this.encryption.encryptFile(filePath, stagingPath, options.dataKey);
+      } else {
+        await fs.copy(filePath, stagingPath);
+      }
+
+      const hash = createHash('sha256');
+      await pipeline(fs.createReadStream(stagingPath), hash);
+      const root = `0x${hash.digest('hex')}`;
+
+      const objectPath = this.objectPath(root);
+      await fs.ensureDir(path.dirname(objectPath));
+      await fs.move(stagingPath, objectPath, { overwrite: true });
+
+      const size = (await fs.stat(filePath)).size;
+      console.log(`📁 Stored file ${filePath} locally (${size} bytes) with root ${root}`);
+      return this.uploadResult(root, size, path.basename(filePath), options);
+    } finally {
+      await fs.remove(stagingPath);
+    }
+  }
+
+  async downloadData(rootHash: string): Promise<Buffer> {
+    const objectPath = this.objectPath(rootHash);
+    if (!(await fs.pathExists(objectPath))) {
+      throw new Error(`No data stored under root ${rootHash}`);
+    }
+
+    return openDownload(this.encryption, await fs.readFile(objectPath), rootHash);
+  }
+
+  async uploadVectorCollection(collectionId: string, vectors: any[], metadata: Record<string, any>): Promise<any> {
+    const collectionData = {
+      collectionId,
+      metadata,
+      vectors: vectors.map(v => ({ id: v.id, embedding: v.embedding, metadata: v.metadata })),
+      timestamp: Date.now(),
+      totalVectors: vectors.length,
+    };
+
+    const result = await this.uploadData(JSON.stringify(collectionData, null, 2), `collection_${collectionId}.json`);
+    return { ...result, collectionId, vectorCount: vectors.length, collectionMetadata: metadata };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const testData = `Local storage test - ${new Date().toISOString()}`;
+      const { root } = await this.uploadData(testData, 'connection-test.txt');
+      return (await this.downloadData(root)).toString() === testData;
+    } catch (error) {
+      console.error('🧪 Local storage connection test failed:', error);
+      return false;
+    }
+  }
+
+  async getNetworkStatus(): Promise<any> {
+    return { network: 'local', path: this.rootDir, encrypted: !!this.encryption };
+  }
+
+  async getReal0GStats(): Promise<any> {
+    let objects = 0;
+    let bytes = 0;
+    for (const prefix of await fs.readdir(this.rootDir)) {
+      const prefixDir = path.join(this.rootDir, prefix);
+      if (!(await fs.stat(prefixDir)).isDirectory()) continue;
+
+      for (const name of await fs.readdir(prefixDir)) {
+        if (!ROOT_PATTERN.test(name)) continue;
+        objects++;
+        bytes += (await fs.stat(path.join(prefixDir, name))).size;
+      }
+    }
+
+    return {
+      real0g: {
+        connected: true,
+        network: 'local',
+        path: this.rootDir,
+        objects,
+        bytes,
+        storageType: 'local-file',
+      },
+    };
+  }
+
+  /**
+   * Objects are spread over subdirectories named after the first byte of their root
+   */
+  private objectPath(rootHash: string): string {
+    const root = rootHash.toLowerCase();
+    if (!ROOT_PATTERN.test(root)) {
+      throw new Error(`Invalid storage root ${rootHash}`);
+    }
+    return path.join(this.rootDir, root.slice(2, 4), root);
+  }
+
+  private uploadResult(root: string, size: number, filename: string, options: UploadOptions) {
+    return {
+      root,
+      size,
+      timestamp: Date.now(),
+      txHash: null,
+      storageProof: 'local-file',
+      filename,
+      encrypted: !!this.encryption,
+      keyId: this.encryption ? options.dataKey?.keyId ?? null : undefined,
+      network: 'local',
+    };
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Structure-aware chunking for Markdown, and for HTML once converted to Markdown.
+ *
+ * The text is parsed into blocks (headings, paragraphs, lists, tables and fenced code),
+ * and chunks are built from whole blocks. Every heading starts a new chunk, and each chunk
+ * carries the path of headings it sits under. A block larger than the chunk size is split
+ * at its item, row or sentence boundaries; fenced code is never split, so a chunk holding
+ * a large code block can exceed the chunk size.
+ */
+export type MarkdownBlockType = 'heading' | 'paragraph' | 'list' | 'table' | 'code';
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  // Offsets into the source text, end exclusive
+  start: number;
+  end: number;
+  // Heading level and text, for headings
+  level?: number;
+  title?: string;
+  // Offsets where an oversized block may be split: list items, table rows or sentences
+  splitPoints: number[];
+}
+
+export interface MarkdownChunk {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  // Titles of the enclosing headings, outermost first
+  headingPath: string[];
+  blockTypes: MarkdownBlockType[];
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const LIST_ITEM = /^[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+\S/;
+const TABLE_SEPARATOR = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * Split Markdown into its top-level blocks
+ */
+export function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = splitLines(text);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.text.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      const close = findFenceClose(lines, i, fence[1]);
+      blocks.push({ type: 'code', start: line.start, end: lines[close].end, splitPoints: [] });
+      i = close + 1;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        start: line.start,
+        end: line.end,
+        level: heading[1].length,
+        title: plainHeading(heading[2] ?? ''),
+        splitPoints: [],
+      });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line.text)) {
+      const splitPoints: number[] = [];
+      let last = i;
+      let j = i;
+      while (j < lines.length) {
+        const current = lines[j];
+        if (current.text.trim() === '') {
+          // A blank line only continues the list if more of it follows
+          const next = lines[j + 1];
+          if (!next || !(LIST_ITEM.test(next.text) || /^[ \t]+\S/.test(next.text))) break;
+          j++;
+          continue;
+        }
+        if (j > i && !LIST_ITEM.test(current.text) && !/^[ \t]/.test(current.text)) break;
+
+        if (LIST_ITEM.test(current.text) && j > i) {
+          splitPoints.push(current.start);
+        }
+        // Code inside an item belongs to it whole
+        const nestedFence = current.text.trimStart().match(/^(`{3,}|~{3,})/);
+        last = nestedFence ? findFenceClose(lines, j, nestedFence[1]) : j;
+        j = last + 1;
+      }
+      blocks.push({ type: 'list', start: line.start, end: lines[last].end, splitPoints });
+      i = last + 1;
+      continue;
+    }
+
+    if (line.text.trimStart().startsWith('|') || (lines[i + 1] && line.text.includes('|') && TABLE_SEPARATOR.test(lines[i + 1].text))) {
+      let j = i;
+      while (j + 1 < lines.length && lines[j + 1].text.trim() !== '' && lines[j + 1].text.includes('|')) j++;
+      // Rows after the header and its separator line
+      const splitPoints = lines.slice(i + 3, j + 1).map(row => row.start);
+      blocks.push({ type: 'table', start: line.start, end: lines[j].end, splitPoints });
+      i = j + 1;
+      continue;
+    }
+
+    let j = i;
+    while (j + 1 < lines.length && !startsBlock(lines[j + 1].text)) j++;
+    const end = lines[j].end;
+    const splitPoints = Array.from(text.slice(line.start, end).matchAll(/[.!?]["')\]]*\s+(?=\S)/g))
+      .map(match => line.start + match.index! + match[0].length);
+    blocks.push({ type: 'paragraph', start: line.start, end, splitPoints });
+    i = j + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Chunk Markdown along its structure, keeping chunks within chunkSize characters where
+ * blocks allow it
+ */
+export function chunkMarkdown(text: string, chunkSize: number): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  const headings: { level: number; title: string }[] = [];
+  let current: { start: number; end: number; headingOnly: boolean; blockTypes: Set<MarkdownBlockType> } | null = null;
+
+  const flush = () => {
+    if (current) {
+      const chunk = trimmedChunk(text, current.start, current.end);
+      if (chunk.text) {
+        chunks.push({ ...chunk, headingPath: headings.map(heading => heading.title), blockTypes: Array.from(current.blockTypes) });
+      }
+    }
+    current = null;
+  };
+
+  for (const block of parseMarkdownBlocks(text)) {
+    if (block.type === 'heading') {
+      // A heading directly followed by a subheading is kept in the breadcrumb rather than as a chunk of its own
+      if (current?.headingOnly && block.level! > headings[headings.length - 1].level) {
+        current = null;
+      }
+      flush();
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) headings.pop();
+      headings.push({ level: block.level!, title: block.title! });
+      current = { start: block.start, end: block.end, headingOnly: true, blockTypes: new Set(['heading']) };
+      continue;
+    }
+
+    for (const [start, end] of blockPieces(text, block, chunkSize)) {
+      // A heading always stays with the content that follows it
+      if (current && !current.headingOnly && end - current.start > chunkSize) {
+        flush();
+      }
+      if (!current) {
+        current = { start, end, headingOnly: false, blockTypes: new Set() };
+      }
+      current.end = end;
+      current.headingOnly = false;
+      current.blockTypes.add(block.type);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Ranges of a block small enough to chunk: the whole block when it fits, otherwise the
+ * spans between its split points, with oversized sentences cut at whitespace
+ */
+function blockPieces(text: string, block: MarkdownBlock, chunkSize: number): [number, number][] {
+  if (block.end - block.start <= chunkSize || (block.splitPoints.length === 0 && block.type !== 'paragraph')) {
+    return [[block.start, block.end]];
+  }
+
+  const bounds = [block.start, ...block.splitPoints, block.end];
+  const pieces: [number, number][] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    let start = bounds[i];
+    const end = bounds[i + 1];
+    // Only prose is cut inside a piece; list items and table rows stay whole
+    while (block.type === 'paragraph' && end - start > chunkSize) {
+      const space = text.lastIndexOf(' ', start + chunkSize);
+      const cut = space > start ? space + 1 : start + chunkSize;
+      pieces.push([start, cut]);
+      start = cut;
+    }
+    pieces.push([start, end]);
+  }
+  return pieces;
+}
+
+function trimmedChunk(text: string, start: number, end: number): { text: string; startIndex: number; endIndex: number } {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { text: text.slice(start, end), startIndex: start, endIndex: end };
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line.replace(/\r$/, ''), start, end: start + line.length });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Index of the line closing a fence opened on line `open`, or the last line when it is
+ * never closed
+ */
+function findFenceClose(lines: Line[], open: number, fence: string): number {
+  const closing = new RegExp(`^[ \\t]*${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+  for (let i = open + 1; i < lines.length; i++) {
+    if (closing.test(lines[i].text)) return i;
+  }
+  return lines.length - 1;
+}
+
+function startsBlock(line: string): boolean {
+  return line.trim() === '' || FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || line.trimStart().startsWith('|');
+}
+
+/**
+ * Heading text without inline markup, for breadcrumbs
+ */
+function plainHeading(title: string): string {
+  return title
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_]/g, '')
+    .trim();
+}
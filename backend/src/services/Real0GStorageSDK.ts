@@ -1,9 +1,12 @@
 import { ZgFile, Indexer } from '@0glabs/0g-ts-sdk';
 import { ethers } from 'ethers';
+import { createHash } from 'crypto';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { config } from '../config';
-import { IStorageService } from './StorageInterface';
+import { IStorageService, UploadOptions } from './StorageInterface';
+import { DataKey, EnvelopeEncryption, openDownload } from './EnvelopeEncryption';
+import { ChunkedUploader, ChunkedUploadResult, hashFile } from './ChunkedUpload';
 
 /**
  * Real 0G Storage Service using Official SDK
@@ -13,6 +16,8 @@ export class Real0GStorageSDK implements IStorageService {
   private provider: ethers.JsonRpcProvider;
   private signer: ethers.Wallet | null = null;
   private indexer: Indexer;
+  private encryption: EnvelopeEncryption | null;
+  private chunked: ChunkedUploader;
   
   // Official 0G Network endpoints from documentation
   private readonly RPC_URL: string;
@@ -37,12 +42,23 @@ export class Real0GStorageSDK implements IStorageService {
     // Initialize indexer with official endpoint
     this.indexer = new Indexer(this.INDEXER_RPC);
     console.log(`📡 Connected to 0G Indexer: ${this.INDEXER_RPC}`);
+
+    this.encryption = EnvelopeEncryption.fromConfig();
+    if (this.encryption) {
+      console.log(`🔐 Client-side encryption enabled (key-encryption key ${this.encryption.kekId})`);
+    }
+
+    // Every object goes through here, so large payloads are segmented and uploads resume
+    this.chunked = new ChunkedUploader({
+      uploadSegment: filePath => this.uploadSegment(filePath),
+      downloadSegment: (root, targetPath) => this.downloadSegment(root, targetPath),
+    });
   }
 
   /**
    * Upload data to real 0G Storage Network using official SDK
    */
-  async uploadData(data: Buffer | string, filename: string): Promise<any> {
+  async uploadData(data: Buffer | string, filename: string, options: UploadOptions = {}): Promise<any> {
     if (!this.signer) {
       throw new Error('Signer required for 0G Storage uploads');
     }
@@ -50,39 +66,26 @@ export class Real0GStorageSDK implements IStorageService {
     try {
       console.log(`📤 Uploading ${filename} to 0G Storage Network (${Buffer.isBuffer(data) ? data.length : Buffer.from(data).length} bytes)...`);
 
-      // Step 1: Create temporary file for ZgFile
+      // Step 1: Write the payload to a temporary file for ZgFile
       const tempDir = path.join(config.storage.uploadPath, 'temp');
       await fs.ensureDir(tempDir);
       const tempFilePath = path.join(tempDir, `${Date.now()}_${filename}`);
       
       const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
-      await fs.writeFile(tempFilePath, dataBuffer);
-
-      // Step 2: Create ZgFile from file path (following official docs)
-      const file = await ZgFile.fromFilePath(tempFilePath);
-      
-      // Step 3: Generate Merkle tree for verification (following official docs)
-      const [tree, treeErr] = await file.merkleTree();
-      if (treeErr !== null) {
-        await fs.remove(tempFilePath); // Cleanup
-        throw new Error(`Error generating Merkle tree: ${treeErr}`);
-      }
-      
-      const rootHash = tree?.rootHash();
-      console.log(`🌳 Generated Merkle root hash: ${rootHash}`);
+      // Only the envelope leaves this node when encryption is enabled
+      const dataKey = this.encryption ? options.dataKey ?? this.encryption.createDataKey() : undefined;
+      const resume = dataKey ? await this.envelopeResume(createHash('sha256').update(dataBuffer).digest('hex'), dataKey) : undefined;
+      await fs.writeFile(tempFilePath, resume ? this.encryption!.encrypt(dataBuffer, dataKey, resume.iv) : dataBuffer);
 
-      // Step 4: Upload to 0G Network using official SDK
+      // Step 2: Upload to 0G Network, in segments with a manifest when the payload is large
       console.log(`🚀 Uploading to 0G Storage Network (${this.RPC_URL.includes('testnet') ? 'TESTNET' : 'MAINNET'})...`);
-      const [tx, uploadErr] = await this.indexer.upload(file, this.RPC_URL, this.signer);
-      
-      if (uploadErr !== null) {
-        await fs.remove(tempFilePath); // Cleanup
-        throw new Error(`0G Upload error: ${uploadErr}`);
+      let upload: ChunkedUploadResult;
+      try {
+        upload = await this.chunked.uploadFile(tempFilePath, filename, resume?.key, resume?.iv);
+      } finally {
+        await fs.remove(tempFilePath);
       }
-
-      // Step 5: Cleanup and return result
-      await fs.remove(tempFilePath);
-      await file.close(); // Important: close file as per docs
+      const { root: rootHash, txHash: tx } = upload;
 
       const result = {
         root: rootHash,
@@ -91,7 +94,11 @@ export class Real0GStorageSDK implements IStorageService {
         txHash: tx,
         storageProof: '0g-network',
         distributionNodes: ['0g-storage-network'],
+        segments: upload.segments,
+        resumedSegments: upload.resumedSegments,
         filename,
+        encrypted: !!this.encryption,
+        keyId: this.encryption ? options.dataKey?.keyId ?? null : undefined,
         network: (this.RPC_URL.includes('evmrpc.0g.ai') || config.zg.chainId === 16661) ? 'mainnet' : 'testnet'
       };
 
@@ -155,72 +162,122 @@ export class Real0GStorageSDK implements IStorageService {
    * Download data from real 0G Storage Network using official SDK
    */
   async downloadData(rootHash: string, outputPath?: string): Promise<Buffer> {
+    // Default output path, a temporary file removed once it has been read
+    const downloadPath = outputPath || path.join(config.storage.uploadPath, 'downloads', `${rootHash}.dat`);
+
     try {
       console.log(`📥 Downloading from 0G Storage Network: ${rootHash}`);
-      
-      // Default output path
-      const downloadPath = outputPath || path.join(config.storage.uploadPath, 'downloads', `${rootHash}.dat`);
       await fs.ensureDir(path.dirname(downloadPath));
 
-      // Download with proof verification enabled (following official docs)
-      const downloadErr = await this.indexer.download(rootHash, downloadPath, true);
-      
-      if (downloadErr !== null) {
-        throw new Error(`0G Download error: ${downloadErr}`);
-      }
+      // Segmented payloads are reassembled and checked against their manifest
+      await this.chunked.download(rootHash, downloadPath);
 
-      // Read and return the downloaded data
+      // Read and return the downloaded data, decrypting envelopes written by encrypted uploads
       const data = await fs.readFile(downloadPath);
       console.log(`✅ Successfully downloaded ${data.length} bytes from 0G Storage`);
-      
-      return data;
+
+      return openDownload(this.encryption, data, rootHash);
 
     } catch (error: any) {
       console.error('❌ Error downloading from 0G Storage:', error);
       throw new Error(`Failed to download from 0G Storage Network: ${error.message || error}`);
+    } finally {
+      if (!outputPath) {
+        await fs.remove(downloadPath);
+      }
     }
   }
 
   /**
    * Upload file directly using file path (most efficient method)
    */
-  async uploadFile(filePath: string): Promise<any> {
+  async uploadFile(filePath: string, options: UploadOptions = {}): Promise<any> {
     if (!this.signer) {
       throw new Error('Signer required for 0G Storage uploads');
     }
 
+    // Encrypted uploads go through an envelope written next to the file
+    const encryptedPath = this.encryption ? `${filePath}.enc` : null;
+
     try {
       console.log(`📁 Uploading file: ${filePath}`);
-      
-      // Create ZgFile from file path
-      const file = await ZgFile.fromFilePath(filePath);
-      
-      // Generate Merkle tree
-      const [tree, treeErr] = await file.merkleTree();
-      if (treeErr !== null) {
-        throw new Error(`Merkle tree error: ${treeErr}`);
-      }
-      
-      const rootHash = tree?.rootHash();
-      
-      // Upload to network
-      const [tx, uploadErr] = await this.indexer.upload(file, this.RPC_URL, this.signer);
-      if (uploadErr !== null) {
-        throw new Error(`Upload error: ${uploadErr}`);
+
+      let resume: { key: string; iv: string } | undefined;
+      if (encryptedPath) {
+        const dataKey = options.dataKey ?? this.encryption!.createDataKey();
+        resume = await this.envelopeResume(await hashFile(filePath), dataKey);
+        await this.encryption!.encryptFile(filePath, encryptedPath, dataKey, resume.iv);
       }
 
-      await file.close();
+      const upload = await this.chunked.uploadFile(encryptedPath ?? filePath, path.basename(filePath), resume?.key, resume?.iv);
+      const { root: rootHash, txHash: tx } = upload;
       
       return {
+        root: rootHash,
         rootHash,
+        size: (await fs.stat(filePath)).size,
+        timestamp: Date.now(),
         txHash: tx,
+        segments: upload.segments,
+        resumedSegments: upload.resumedSegments,
         filename: path.basename(filePath),
+        encrypted: !!encryptedPath,
+        keyId: encryptedPath ? options.dataKey?.keyId ?? null : undefined,
         storageProof: '0g-network'
       };
 
     } catch (error: any) {
       console.error('File upload error:', error);
       throw error;
+    } finally {
+      if (encryptedPath) {
+        await fs.remove(encryptedPath);
+      }
+    }
+  }
+
+  /**
+   * Resume key and IV for encrypting a payload: an interrupted upload of the same plaintext
+   * under the same data key saved its IV, so encrypting with it again gives the same envelope
+   * and the upload picks up where it stopped. Anything else gets a fresh random IV.
+   */
+  private async envelopeResume(plaintextSha256: string, dataKey: DataKey): Promise<{ key: string; iv: string }> {
+    const key = `${plaintextSha256}.${dataKey.keyId}`;
+    return { key, iv: (await this.chunked.savedIv(key)) ?? EnvelopeEncryption.createIv() };
+  }
+
+  /**
+   * Upload one file as a single 0G Storage object (following official docs)
+   */
+  private async uploadSegment(filePath: string): Promise<{ root: string; txHash: any }> {
+    const file = await ZgFile.fromFilePath(filePath);
+    try {
+      // Generate Merkle tree for verification
+      const [tree, treeErr] = await file.merkleTree();
+      if (treeErr !== null) {
+        throw new Error(`Error generating Merkle tree: ${treeErr}`);
+      }
+
+      const rootHash = tree!.rootHash() as string;
+      console.log(`🌳 Generated Merkle root hash: ${rootHash}`);
+
+      const [tx, uploadErr] = await this.indexer.upload(file, this.RPC_URL, this.signer!);
+      if (uploadErr !== null) {
+        throw new Error(`0G Upload error: ${uploadErr}`);
+      }
+      return { root: rootHash, txHash: tx };
+    } finally {
+      await file.close(); // Important: close file as per docs
+    }
+  }
+
+  /**
+   * Download one 0G Storage object with proof verification enabled (following official docs)
+   */
+  private async downloadSegment(rootHash: string, targetPath: string): Promise<void> {
+    const downloadErr = await this.indexer.download(rootHash, targetPath, true);
+    if (downloadErr !== null) {
+      throw new Error(`0G Download error: ${downloadErr}`);
     }
   }
 
@@ -0,0 +1,162 @@
+import { computeDistance } from '../core/DistanceMetric';
+
+/**
+ * Semantic chunking: the text is split into sentences, each sentence is embedded, and
+ * chunks end where the cosine similarity between adjacent sentences drops below a
+ * percentile of all adjacent similarities in the document. Chunk size limits take
+ * precedence: a topic shift does not end a chunk shorter than minChunkSize, and a chunk
+ * always ends before it would grow past maxChunkSize.
+ */
+export interface SemanticChunkingOptions {
+  maxChunkSize: number;
+  minChunkSize: number;
+  // Adjacent similarities below this percentile (0-100) of all of them are breakpoint candidates
+  breakpointPercentile: number;
+}
+
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SemanticBreakpoint {
+  // Chunk ends after this sentence
+  afterSentence: number;
+  // Offset into the text where the next chunk starts
+  offset: number;
+  // Similarity between the sentences on either side
+  similarity: number;
+  reason: 'similarity' | 'maxSize';
+}
+
+export interface SemanticChunk {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  sentenceCount: number;
+}
+
+export interface SemanticChunkingResult {
+  chunks: SemanticChunk[];
+  breakpoints: SemanticBreakpoint[];
+  sentenceCount: number;
+  // Similarity below which adjacent sentences were breakpoint candidates
+  threshold: number | null;
+}
+
+export const DEFAULT_BREAKPOINT_PERCENTILE = 10;
+
+/**
+ * Sentences of a text with their offsets. Blank lines also end sentences, so headings and
+ * list items without punctuation stand on their own.
+ */
+export function splitSentences(text: string): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+  // Runs of non-blank lines, then the sentences within each
+  for (const paragraph of text.matchAll(/[^\n]+(?:\n(?![ \t\r]*(?:\n|$))[^\n]*)*/g)) {
+    for (const match of paragraph[0].matchAll(/[^.!?]+(?:[.!?]+["')\]]*|$)/g)) {
+      const leading = match[0].length - match[0].trimStart().length;
+      const sentence = match[0].trim();
+      if (sentence) {
+        const start = paragraph.index! + match.index! + leading;
+        sentences.push({ text: sentence, start, end: start + sentence.length });
+      }
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Value at percentile p (0-100) of a list, interpolating between neighbouring values
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Chunk a text at the semantic breakpoints between its sentences
+ */
+export async function chunkSemantically(
+  text: string,
+  embed: (sentence: string) => Promise<number[]>,
+  options: SemanticChunkingOptions
+): Promise<SemanticChunkingResult> {
+  const sentences = splitSentences(text).flatMap(sentence => splitOversized(text, sentence, options.maxChunkSize));
+  if (sentences.length === 0) {
+    return { chunks: [], breakpoints: [], sentenceCount: 0, threshold: null };
+  }
+
+  const embeddings: number[][] = [];
+  for (const sentence of sentences) {
+    embeddings.push(await embed(sentence.text));
+  }
+  // similarities[i] is between sentence i and sentence i + 1
+  const similarities = embeddings.slice(1).map((embedding, i) => 1 - computeDistance('cosine', embeddings[i], embedding));
+  const threshold = similarities.length > 0 ? percentile(similarities, options.breakpointPercentile) : null;
+
+  const chunks: SemanticChunk[] = [];
+  const breakpoints: SemanticBreakpoint[] = [];
+  let first = 0;
+
+  for (let i = 0; i < sentences.length - 1; i++) {
+    const chunkStart = sentences[first].start;
+    const next = sentences[i + 1];
+    let reason: SemanticBreakpoint['reason'] | null = null;
+
+    if (next.end - chunkStart > options.maxChunkSize) {
+      reason = 'maxSize';
+    } else if (threshold !== null && similarities[i] < threshold && sentences[i].end - chunkStart >= options.minChunkSize) {
+      reason = 'similarity';
+    }
+
+    if (reason) {
+      chunks.push(chunkOf(text, sentences, first, i));
+      breakpoints.push({ afterSentence: i, offset: next.start, similarity: similarities[i], reason });
+      first = i + 1;
+    }
+  }
+  chunks.push(chunkOf(text, sentences, first, sentences.length - 1));
+
+  // A short tail joins the chunk before it when the two fit together
+  const last = chunks[chunks.length - 1];
+  const previous = chunks[chunks.length - 2];
+  if (previous && last.text.length < options.minChunkSize && last.endIndex - previous.startIndex <= options.maxChunkSize) {
+    chunks.splice(-2, 2, {
+      text: text.slice(previous.startIndex, last.endIndex),
+      startIndex: previous.startIndex,
+      endIndex: last.endIndex,
+      sentenceCount: previous.sentenceCount + last.sentenceCount,
+    });
+    breakpoints.pop();
+  }
+
+  return { chunks, breakpoints, sentenceCount: sentences.length, threshold };
+}
+
+function chunkOf(text: string, sentences: SentenceSpan[], first: number, last: number): SemanticChunk {
+  const startIndex = sentences[first].start;
+  const endIndex = sentences[last].end;
+  return { text: text.slice(startIndex, endIndex), startIndex, endIndex, sentenceCount: last - first + 1 };
+}
+
+/**
+ * A sentence longer than a whole chunk, cut at whitespace into pieces that fit
+ */
+function splitOversized(text: string, sentence: SentenceSpan, maxChunkSize: number): SentenceSpan[] {
+  const pieces: SentenceSpan[] = [];
+  let start = sentence.start;
+  while (sentence.end - start > maxChunkSize) {
+    const space = text.lastIndexOf(' ', start + maxChunkSize);
+    const cut = space > start ? space : start + maxChunkSize;
+    pieces.push({ text: text.slice(start, cut), start, end: cut });
+    start = cut;
+    while (start < sentence.end && /\s/.test(text[start])) start++;
+  }
+  pieces.push({ text: text.slice(start, sentence.end), start, end: sentence.end });
+  return pieces;
+}
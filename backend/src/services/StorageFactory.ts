@@ -0,0 +1,35 @@
+import { config } from '../config';
+import { IStorageService } from './StorageInterface';
+import { Real0GStorageSDK } from './Real0GStorageSDK';
+import { LocalFileStorage } from './LocalFileStorage';
+import { InMemoryStorage } from './InMemoryStorage';
+import { S3Storage } from './S3Storage';
+
+export type StorageBackend = '0g' | 's3' | 'local' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['0g', 's3', 'local', 'memory'];
+
+export function isStorageBackend(value: unknown): value is StorageBackend {
+  return typeof value === 'string' && (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+/**
+ * Create the storage service selected by STORAGE_BACKEND
+ */
+export function createStorageService(backend: string = config.storage.backend): IStorageService {
+  if (!isStorageBackend(backend)) {
+    throw new Error(`Unknown storage backend "${backend}", expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  console.log(`🗄️ Using ${backend} storage backend`);
+  switch (backend) {
+    case 's3':
+      return new S3Storage();
+    case 'local':
+      return new LocalFileStorage();
+    case 'memory':
+      return new InMemoryStorage();
+    default:
+      return new Real0GStorageSDK();
+  }
+}
@@ -1,10 +1,18 @@
+import type { DataKey } from './EnvelopeEncryption';
+
 /**
  * Storage Service Interface
  * Provides a unified interface for 0G Storage implementations
  */
 
+export interface UploadOptions {
+  // Collection data key used when client-side encryption is enabled; a one-off key is used otherwise
+  dataKey?: DataKey;
+}
+
 export interface IStorageService {
-  uploadData(data: Buffer | string, filename: string): Promise<any>;
+  uploadData(data: Buffer | string, filename: string, options?: UploadOptions): Promise<any>;
+  uploadFile?(filePath: string, options?: UploadOptions): Promise<any>;
   downloadData(rootHash: string): Promise<Buffer>;
   uploadVectorCollection(collectionId: string, vectors: any[], metadata: Record<string, any>): Promise<any>;
   getReal0GStats(): Promise<any>;
@@ -0,0 +1,383 @@
+import * as path from 'path';
+// @ts-ignore - pdf-parse doesn't have proper type definitions
+import pdf from 'pdf-parse';
+import { readZip, ArchiveEntry } from './ArchiveReader';
+import { config } from '../config';
+
+/**
+ * Text extractors for the document formats accepted by uploads.
+ *
+ * Each extractor is registered with the MIME types and file extensions it handles; the
+ * upload routes and processing stats list supported formats from this registry, so a
+ * format is advertised exactly when it can be extracted. The markup formats are read
+ * with small tag scanners rather than full parsers, which is enough to recover their text.
+ */
+export interface TextExtractor {
+  // Short format name, also the preferred file extension
+  format: string;
+  mimeTypes: string[];
+  extensions: string[];
+  extract(buffer: Buffer): Promise<string>;
+  // Markdown keeping headings, lists, tables and code, for structure-aware chunking
+  extractMarkdown?(buffer: Buffer): Promise<string>;
+}
+
+export const TEXT_EXTRACTORS: TextExtractor[] = [
+  {
+    format: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    extract: extractPdf,
+  },
+  {
+    format: 'txt',
+    mimeTypes: ['text/plain'],
+    extensions: ['txt', 'text'],
+    extract: async buffer => buffer.toString('utf-8'),
+  },
+  {
+    format: 'md',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown'],
+    extract: async buffer => buffer.toString('utf-8'),
+  },
+  {
+    format: 'json',
+    mimeTypes: ['application/json'],
+    extensions: ['json'],
+    extract: async buffer => JSON.stringify(JSON.parse(buffer.toString('utf-8')), null, 2),
+  },
+  {
+    format: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    extract: async buffer => extractDocx(buffer),
+  },
+  {
+    format: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    extract: async buffer => htmlToText(buffer.toString('utf-8')),
+    extractMarkdown: async buffer => htmlToMarkdown(buffer.toString('utf-8')),
+  },
+  {
+    format: 'csv',
+    // Browsers on Windows label CSV files as Excel documents
+    mimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel'],
+    extensions: ['csv'],
+    extract: async buffer => csvToText(buffer.toString('utf-8')),
+  },
+  {
+    format: 'xml',
+    mimeTypes: ['application/xml', 'text/xml'],
+    extensions: ['xml'],
+    extract: async buffer => xmlToText(buffer.toString('utf-8')),
+  },
+  {
+    format: 'epub',
+    mimeTypes: ['application/epub+zip'],
+    extensions: ['epub'],
+    extract: async buffer => extractEpub(buffer, htmlToText),
+    extractMarkdown: async buffer => extractEpub(buffer, htmlToMarkdown),
+  },
+];
+
+/**
+ * Extractor for a file, chosen by MIME type and then by extension, since uploads often
+ * arrive as application/octet-stream
+ */
+export function extractorFor(mimetype: string, filename: string): TextExtractor | undefined {
+  const mimeType = mimetype.split(';')[0].trim().toLowerCase();
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  return TEXT_EXTRACTORS.find(extractor => extractor.mimeTypes.includes(mimeType))
+    ?? TEXT_EXTRACTORS.find(extractor => extractor.extensions.includes(extension));
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const data = await pdf(buffer);
+  if (!data.text || data.text.length === 0) {
+    throw new Error('No text content found in PDF');
+  }
+  return data.text;
+}
+
+/**
+ * Body text of a Word document, one line per paragraph
+ */
+function extractDocx(buffer: Buffer): string {
+  const document = zipEntry(readZipLimited(buffer), 'word/document.xml', 'DOCX file has no word/document.xml');
+  const xml = document.toString('utf-8');
+
+  const paragraphs: string[] = [];
+  for (const [paragraph] of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    let text = '';
+    for (const [tag, content] of paragraph.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+      if (content !== undefined) {
+        text += decodeEntities(content);
+      } else {
+        text += tag.startsWith('<w:tab') ? '\t' : '\n';
+      }
+    }
+    paragraphs.push(text);
+  }
+
+  return collapseBlankLines(paragraphs.join('\n'));
+}
+
+/**
+ * Chapters of an EPUB in reading order, as given by the spine of its package document
+ */
+function extractEpub(buffer: Buffer, convert: (html: string) => string): string {
+  const entries = readZipLimited(buffer);
+
+  const container = zipEntry(entries, 'META-INF/container.xml', 'EPUB file has no META-INF/container.xml').toString('utf-8');
+  const packagePath = container.match(/<rootfile\b[^>]*\bfull-path="([^"]+)"/)?.[1];
+  if (!packagePath) {
+    throw new Error('EPUB container does not name a package document');
+  }
+  const opf = zipEntry(entries, packagePath, `EPUB package document ${packagePath} is missing`).toString('utf-8');
+
+  const manifest = new Map<string, string>();
+  for (const [item] of opf.matchAll(/<item\b[^>]*>/g)) {
+    const id = attribute(item, 'id');
+    const href = attribute(item, 'href');
+    if (id && href) manifest.set(id, href);
+  }
+
+  const chapters: string[] = [];
+  for (const [itemref] of opf.matchAll(/<itemref\b[^>]*>/g)) {
+    const href = manifest.get(attribute(itemref, 'idref') ?? '');
+    if (!href) continue;
+    const chapterPath = path.posix.join(path.posix.dirname(packagePath), decodeURIComponent(href.split('#')[0]));
+    const chapter = entries.find(entry => entry.path === chapterPath);
+    if (chapter) {
+      chapters.push(convert(chapter.data.toString('utf-8')));
+    }
+  }
+  if (chapters.length === 0) {
+    throw new Error('EPUB file has no readable chapters');
+  }
+
+  return chapters.filter(chapter => chapter.length > 0).join('\n\n');
+}
+
+const HTML_BLOCK_ELEMENTS = /^(address|article|aside|blockquote|br|caption|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|td|tfoot|th|thead|tr|ul)$/;
+
+/**
+ * Readable text of an HTML document: scripts, styles and the head are dropped, and block
+ * elements start new lines
+ */
+export function htmlToText(html: string): string {
+  const text = htmlContent(html).replace(/<\/?([a-zA-Z][\w:-]*)[^>]*>/g, (_tag, name: string) => {
+    const element = name.toLowerCase();
+    if (element === 'td' || element === 'th') return '\t';
+    return HTML_BLOCK_ELEMENTS.test(element) ? '\n' : '';
+  });
+
+  const lines = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim());
+  return collapseBlankLines(lines.join('\n'));
+}
+
+/**
+ * HTML as Markdown: headings, list items, table rows and preformatted code keep their
+ * structure, and other block elements become paragraphs. Nested lists are flattened.
+ */
+export function htmlToMarkdown(html: string): string {
+  // Preformatted blocks keep their whitespace, so they are converted apart from the rest
+  const parts = htmlContent(html).split(/(<pre\b[^>]*>[\s\S]*?<\/pre\s*>)/i);
+  return parts
+    .map((part, index) => index % 2 === 1 ? preToFence(part) : flowToMarkdown(part))
+    .filter(part => part.length > 0)
+    .join('\n\n');
+}
+
+function flowToMarkdown(html: string): string {
+  const lists: { ordered: boolean; next: number }[] = [];
+  let inCell = false;
+  let cells = 0;
+  let rows = 0;
+
+  const text = html.replace(/\s+/g, ' ').replace(/<(\/?)([a-zA-Z][\w:-]*)[^>]*>/g, (_tag, closing: string, name: string) => {
+    const element = name.toLowerCase();
+    const heading = element.match(/^h([1-6])$/);
+    if (heading) {
+      return closing ? '\n\n' : `\n\n${'#'.repeat(Number(heading[1]))} `;
+    }
+
+    switch (element) {
+      case 'ul':
+      case 'ol':
+        if (closing) {
+          lists.pop();
+        } else {
+          lists.push({ ordered: element === 'ol', next: 1 });
+        }
+        return '\n\n';
+      case 'li': {
+        if (closing) return '';
+        const list = lists[lists.length - 1];
+        return `\n${list?.ordered ? `${list.next++}.` : '-'} `;
+      }
+      case 'table':
+        rows = 0;
+        return '\n\n';
+      case 'tr':
+        if (!closing) {
+          cells = 0;
+          return '\n|';
+        }
+        // Markdown tables need a separator after their first row
+        return ++rows === 1 ? `\n|${' --- |'.repeat(cells)}` : '';
+      case 'td':
+      case 'th':
+        inCell = !closing;
+        if (closing) return ' |';
+        cells++;
+        return ' ';
+      case 'br':
+        return inCell ? ' ' : '\n';
+      case 'code':
+        return '`';
+      default:
+        if (!HTML_BLOCK_ELEMENTS.test(element)) return '';
+        // Paragraphs inside list items and table cells stay on the item's line
+        return lists.length > 0 || inCell ? ' ' : '\n\n';
+    }
+  });
+
+  const lines = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim());
+  return collapseBlankLines(lines.join('\n'));
+}
+
+function preToFence(pre: string): string {
+  const language = pre.match(/class="[^"]*\blang(?:uage)?-([\w+-]+)/)?.[1] ?? '';
+  const code = decodeEntities(pre.replace(/<[^>]*>/g, '')).replace(/^\r?\n/, '').trimEnd();
+  // The fence must be longer than any run of backticks in the code
+  const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+/**
+ * HTML without comments, declarations, scripts, styles or the document head
+ */
+function htmlContent(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->|<![^>]*>|<\?[\s\S]*?\?>/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1\s*>/gi, '');
+}
+
+/**
+ * Text content of an XML document, one line per element that holds text
+ */
+export function xmlToText(xml: string): string {
+  const lines: string[] = [];
+  const body = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, '');
+
+  // Tags are matched only to be skipped over
+  for (const [, cdata, text] of body.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>|([^<]+)/g)) {
+    if (cdata === undefined && text === undefined) continue;
+    const line = (cdata ?? decodeEntities(text)).replace(/\s+/g, ' ').trim();
+    if (line) lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * CSV rows as "column: value" lines, so each value keeps its header next to it
+ */
+export function csvToText(csv: string): string {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, '')).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) return '';
+
+  const [header, ...records] = rows;
+  if (records.length === 0) return header.join(', ');
+  return records
+    .map(record => record
+      .map((value, index) => `${header[index]?.trim() || `column ${index + 1}`}: ${value.trim()}`)
+      .join(', '))
+    .join('\n');
+}
+
+/**
+ * RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes
+ */
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  ndash: '\u2013', mdash: '\u2014', lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201c', rdquo: '\u201d',
+  hellip: '\u2026', copy: '\u00a9', reg: '\u00ae', trade: '\u2122', bull: '\u2022', middot: '\u00b7',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const value = tag.match(new RegExp(`\\s${name}=("([^"]*)"|'([^']*)')`))?.slice(2).find(match => match !== undefined);
+  return value === undefined ? undefined : decodeEntities(value);
+}
+
+function collapseBlankLines(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function readZipLimited(buffer: Buffer): ArchiveEntry[] {
+  return readZip(buffer, { maxEntries: config.storage.maxArchiveEntries, maxBytes: config.storage.maxArchiveBytes });
+}
+
+function zipEntry(entries: ArchiveEntry[], entryPath: string, missing: string): Buffer {
+  const entry = entries.find(candidate => candidate.path === entryPath);
+  if (!entry) {
+    throw new Error(missing);
+  }
+  return entry.data;
+}
@@ -30,6 +30,10 @@ const VECTOR_REGISTRY_ABI = [
   "event VectorAdded(string indexed collectionId, string indexed vectorId, address indexed user, string storageHash)"
 ];
 
+// The contract has no collection-level key/value store, so collection attributes are kept
+// as vector attributes under this reserved vector id
+const COLLECTION_ATTRIBUTES_ID = '_collection';
+
 export interface CollectionInfo {
   name: string;
   description: string;
@@ -385,6 +389,29 @@ export class VectorRegistryService {
     }
   }
 
+  /**
+   * Set a collection-level attribute (e.g. the distance metric)
+   */
+  async setCollectionAttribute(collectionId: string, key: string, value: string): Promise<string> {
+    return this.setVectorAttribute(collectionId, COLLECTION_ATTRIBUTES_ID, key, value);
+  }
+
+  /**
+   * Get a collection-level attribute, or an empty string if it was never set
+   */
+  async getCollectionAttribute(collectionId: string, key: string): Promise<string> {
+    if (!this.contract) {
+      throw new Error('VectorRegistry contract not configured');
+    }
+
+    try {
+      return await this.contract.getVectorAttribute(collectionId, COLLECTION_ATTRIBUTES_ID, key);
+    } catch (error) {
+      console.error('Error getting collection attribute:', error);
+      return '';
+    }
+  }
+
   /**
    * Get contract statistics
    */
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { archiveFormat, readArchive } from '../src/services/ArchiveReader';
+
+const limits = { maxEntries: 10, maxBytes: 1024 * 1024 };
+
+/**
+ * Zip archive with deflated entries; names ending in a slash become directories
+ */
+function zip(files: Record<string, string>): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const data = Buffer.from(text);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(local, nameBytes, compressed);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, directory, end]);
+}
+
+/**
+ * Ustar archive of regular files
+ */
+function tar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, text] of Object.entries(files)) {
+    const data = Buffer.from(text);
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write(data.length.toString(8).padStart(11, '0'), 124);
+    header.write('0', 156);
+    header.write('ustar', 257);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+describe('ArchiveReader', function () {
+  it('Should read the files of a zip archive and skip directories', function () {
+    const archive = zip({ 'docs/': '', 'docs/a.txt': 'Alpha', 'b.md': '# Beta\n'.repeat(100) });
+
+    assert.equal(archiveFormat(archive), 'zip');
+    const entries = readArchive(archive, limits);
+    assert.deepEqual(entries.map(entry => entry.path), ['docs/a.txt', 'b.md']);
+    assert.equal(entries[0].data.toString(), 'Alpha');
+    assert.equal(entries[1].data.toString(), '# Beta\n'.repeat(100));
+  });
+
+  it('Should read plain and gzipped tar archives', function () {
+    const archive = tar({ 'a.txt': 'Alpha', 'notes/b.txt': 'B'.repeat(600) });
+
+    for (const data of [archive, gzipSync(archive)]) {
+      const entries = readArchive(data, limits);
+      assert.deepEqual(entries.map(entry => entry.path), ['a.txt', 'notes/b.txt']);
+      assert.equal(entries[1].data.toString(), 'B'.repeat(600));
+    }
+    assert.equal(archiveFormat(gzipSync(archive)), 'tar.gz');
+  });
+
+  it('Should refuse archives over the entry or size limits', function () {
+    const files = { 'a.txt': 'A'.repeat(2000), 'b.txt': 'B', 'c.txt': 'C' };
+
+    assert.throws(() => readArchive(zip(files), { maxEntries: 2, maxBytes: limits.maxBytes }), /more than 2 files/);
+    assert.throws(() => readArchive(tar(files), { maxEntries: 10, maxBytes: 1000 }), /more than 1000 bytes/);
+    // A highly compressible bomb is stopped while it is being inflated
+    assert.throws(() => readArchive(gzipSync(tar(files)), { maxEntries: 10, maxBytes: 1000 }));
+  });
+
+  it('Should reject data that is not an archive', function () {
+    assert.equal(archiveFormat(Buffer.from('plain text')), null);
+    assert.throws(() => readArchive(Buffer.from('plain text'), limits), /Not a zip or tar archive/);
+  });
+});
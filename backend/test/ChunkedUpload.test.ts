@@ -0,0 +1,139 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { ChunkedUploader, SegmentStore } from '../src/services/ChunkedUpload';
+import { contentRoot } from '../src/services/LocalFileStorage';
+
+/**
+ * Content-addressed segment store that can be told to fail uploads
+ */
+function segmentStore(failUpload: (attempt: number) => boolean = () => false) {
+  const objects = new Map<string, Buffer>();
+  let attempts = 0;
+
+  const store: SegmentStore = {
+    async uploadSegment(filePath) {
+      const data = await fs.readFile(filePath);
+      if (failUpload(++attempts)) {
+        throw new Error('Storage node unavailable');
+      }
+      const root = contentRoot(data);
+      objects.set(root, data);
+      return { root, txHash: `0xtx${attempts}` };
+    },
+    async downloadSegment(root, targetPath) {
+      const data = objects.get(root);
+      if (!data) {
+        throw new Error(`File not found: ${root}`);
+      }
+      if (await fs.pathExists(targetPath)) {
+        throw new Error('Wrong path, provide a file path which does not exist.');
+      }
+      await fs.writeFile(targetPath, data);
+    },
+  };
+
+  return { store, objects, attempts: () => attempts };
+}
+
+describe('ChunkedUploader', function () {
+  let tempDir: string;
+  let payloadPath: string;
+  const payload = randomBytes(10000);
+
+  before(async function () {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunked-upload-'));
+    payloadPath = path.join(tempDir, 'snapshot.bin');
+    await fs.writeFile(payloadPath, payload);
+  });
+
+  after(async function () {
+    await fs.remove(tempDir);
+  });
+
+  const uploader = (store: SegmentStore, stateDir: string) =>
+    new ChunkedUploader(store, { segmentSize: 4096, maxRetries: 2, retryDelayMs: 1, stateDir: path.join(tempDir, stateDir) });
+
+  it('Should upload small payloads as a single object', async function () {
+    const { store, objects } = segmentStore();
+    const smallPath = path.join(tempDir, 'small.txt');
+    await fs.writeFile(smallPath, 'chunk text');
+
+    const result = await uploader(store, 'small').uploadFile(smallPath);
+    assert.equal(result.segments, 1);
+    assert.equal(result.root, contentRoot(Buffer.from('chunk text')));
+    assert.equal(objects.size, 1);
+  });
+
+  it('Should split large payloads into segments behind a manifest and reassemble them', async function () {
+    const { store, objects } = segmentStore();
+    const chunked = uploader(store, 'split');
+
+    const result = await chunked.uploadFile(payloadPath);
+    assert.equal(result.segments, 3);
+    assert.equal(objects.size, 4);
+    assert.ok(ChunkedUploader.isManifest(objects.get(result.root)!));
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'split')), []);
+
+    const targetPath = path.join(tempDir, 'split.out');
+    await chunked.download(result.root, targetPath);
+    assert.deepEqual(await fs.readFile(targetPath), payload);
+
+    // Downloading again replaces the earlier copy
+    await chunked.download(result.root, targetPath);
+    assert.deepEqual(await fs.readFile(targetPath), payload);
+  });
+
+  it('Should retry failed segments with backoff', async function () {
+    const { store, attempts } = segmentStore(attempt => attempt === 2 || attempt === 3);
+
+    const result = await uploader(store, 'retry').uploadFile(payloadPath);
+    assert.equal(result.segments, 3);
+    assert.equal(attempts(), 6);
+  });
+
+  it('Should resume an interrupted upload without resending stored segments', async function () {
+    const failing = segmentStore(attempt => attempt >= 3);
+    await assert.rejects(uploader(failing.store, 'resume').uploadFile(payloadPath), /Storage node unavailable/);
+    assert.equal(failing.objects.size, 2);
+
+    const healthy = segmentStore();
+    const result = await uploader(healthy.store, 'resume').uploadFile(payloadPath);
+    assert.equal(result.resumedSegments, 2);
+    // The last segment and the manifest
+    assert.equal(healthy.attempts(), 2);
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'resume')), []);
+  });
+
+  it('Should discard progress left unused for too long', async function () {
+    const stateDir = path.join(tempDir, 'stale');
+    await fs.ensureDir(stateDir);
+    const abandoned = path.join(stateDir, 'abandoned.json');
+    const recent = path.join(stateDir, 'recent.json');
+    await fs.writeJson(abandoned, { segments: [] });
+    await fs.writeJson(recent, { segments: [] });
+    const weekAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+    await fs.utimes(abandoned, weekAgo, weekAgo);
+
+    const { store } = segmentStore();
+    await new ChunkedUploader(store, { segmentSize: 4096, maxRetries: 0, retryDelayMs: 1, stateDir, stateMaxAgeMs: 24 * 60 * 60 * 1000 })
+      .uploadFile(payloadPath);
+    assert.deepEqual(await fs.readdir(stateDir), ['recent.json']);
+  });
+
+  it('Should reject segments that fail verification', async function () {
+    const { store, objects } = segmentStore();
+    const chunked = uploader(store, 'verify');
+    const result = await chunked.uploadFile(payloadPath);
+
+    const manifest = JSON.parse(objects.get(result.root)!.subarray(8).toString());
+    objects.get(manifest.segments[1].root)!.fill(0);
+
+    const targetPath = path.join(tempDir, 'verify.out');
+    await assert.rejects(chunked.download(result.root, targetPath), /Segment 1 of .* failed verification/);
+    assert.equal(await fs.pathExists(targetPath), false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify, { FastifyInstance } from 'fastify';
+import { VectorEngine } from '../src/core/VectorEngine';
+import { InMemoryStorage } from '../src/services/InMemoryStorage';
+import { collectionRoutes } from '../src/routes/collections';
+
+describe('Collection routes', function () {
+  let fastify: FastifyInstance;
+  let engine: VectorEngine;
+  let collectionId: string;
+
+  beforeEach(async function () {
+    fastify = Fastify();
+    engine = new VectorEngine();
+    await collectionRoutes(fastify, engine, {} as any, new InMemoryStorage());
+
+    collectionId = await engine.createCollection('routes', 4);
+    await engine.upsertVector(collectionId, 'a', [1, 0, 0, 0], { tag: 'keep' });
+    await engine.upsertVector(collectionId, 'b', [0, 1, 0, 0], { tag: 'drop' });
+  });
+
+  afterEach(async function () {
+    await fastify.close();
+  });
+
+  describe('Bulk delete', function () {
+    const bulkDelete = (body: Record<string, any>) =>
+      fastify.inject({ method: 'POST', url: `/collections/${collectionId}/vectors/delete`, payload: body });
+
+    it('Should refuse an empty filter without ids', async function () {
+      const response = await bulkDelete({ filter: {} });
+
+      assert.equal(response.statusCode, 400);
+      assert.match(JSON.parse(response.body).error, /at least one condition/);
+      assert.equal(engine.getCollection(collectionId)!.count, 2);
+    });
+
+    it('Should delete the vectors matching a filter', async function () {
+      const response = await bulkDelete({ filter: { tag: 'drop' } });
+
+      assert.equal(response.statusCode, 200);
+      assert.deepEqual(JSON.parse(response.body).vectorIds, ['b']);
+      assert.equal(engine.getCollection(collectionId)!.count, 1);
+    });
+  });
+
+  describe('Search', function () {
+    const search = (body: Record<string, any>) =>
+      fastify.inject({ method: 'POST', url: `/collections/${collectionId}/search`, payload: body });
+
+    it('Should refuse a query vector of the wrong dimension or with non-numbers', async function () {
+      for (const query of [[1, 0, 0], [1, 0, 'x', 0]]) {
+        const response = await search({ query });
+        assert.equal(response.statusCode, 400);
+        assert.match(JSON.parse(response.body).error, /^Query: Vector/);
+      }
+    });
+
+    it('Should refuse a k that is not a positive integer', async function () {
+      for (const k of [0, -1, 2.5, '3']) {
+        const response = await search({ query: [1, 0, 0, 0], k });
+        assert.equal(response.statusCode, 400);
+        assert.equal(JSON.parse(response.body).error, 'k must be a positive integer');
+      }
+    });
+
+    it('Should return the nearest vectors for a valid query', async function () {
+      const response = await search({ query: [0, 1, 0, 0], k: 1 });
+
+      assert.equal(response.statusCode, 200);
+      assert.deepEqual(JSON.parse(response.body).results.map((result: any) => result.id), ['b']);
+    });
+  });
+});
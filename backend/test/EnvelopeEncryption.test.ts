@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvelopeEncryption } from '../src/services/EnvelopeEncryption';
+
+describe('EnvelopeEncryption', function () {
+  const encryption = new EnvelopeEncryption('correct horse battery staple');
+  const plaintext = Buffer.from('extracted text and embeddings');
+
+  it('Should round-trip data under a collection data key', function () {
+    const dataKey = encryption.createDataKey();
+    const envelope = encryption.encrypt(plaintext, dataKey);
+
+    assert.ok(EnvelopeEncryption.isEnvelope(envelope));
+    assert.equal(envelope.includes(plaintext), false);
+    assert.ok(envelope.includes(Buffer.from(dataKey.keyId)));
+    assert.deepEqual(encryption.decrypt(envelope), plaintext);
+    assert.equal(EnvelopeEncryption.isEnvelope(plaintext), false);
+  });
+
+  it('Should decrypt with the same master key on another node only', function () {
+    const envelope = encryption.encrypt(plaintext);
+
+    assert.deepEqual(new EnvelopeEncryption('correct horse battery staple').decrypt(envelope), plaintext);
+    assert.throws(() => new EnvelopeEncryption('another secret').decrypt(envelope), /wrapped by key-encryption key/);
+  });
+
+  it('Should encrypt equal payloads to unrelated envelopes unless given the same IV', function () {
+    const dataKey = encryption.createDataKey();
+    const iv = (envelope: Buffer) => JSON.parse(envelope.subarray(12, 12 + envelope.readUInt32LE(8)).toString()).iv;
+
+    const first = encryption.encrypt(plaintext, dataKey);
+    const second = encryption.encrypt(plaintext, dataKey);
+    assert.notEqual(iv(first), iv(second));
+    assert.notDeepEqual(first.subarray(-plaintext.length - 16), second.subarray(-plaintext.length - 16));
+    // Resuming an upload encrypts again with the IV it saved
+    assert.deepEqual(encryption.encrypt(plaintext, dataKey, iv(first)), first);
+  });
+
+  it('Should reject tampered envelopes', function () {
+    const envelope = encryption.encrypt(plaintext);
+    envelope[envelope.length - 20] ^= 0xff;
+
+    assert.throws(() => encryption.decrypt(envelope), /failed authentication/);
+  });
+
+  it('Should encrypt files as a stream', async function () {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'envelope-'));
+    try {
+      const source = path.join(dir, 'snapshot');
+      const target = path.join(dir, 'snapshot.enc');
+      const data = Buffer.alloc(3 * 65536 + 7, 42);
+      await fs.writeFile(source, data);
+
+      const dataKey = encryption.createDataKey();
+      const iv = EnvelopeEncryption.createIv();
+      await encryption.encryptFile(source, target, dataKey, iv);
+      assert.deepEqual(encryption.decrypt(await fs.readFile(target)), data);
+      assert.deepEqual(await fs.readFile(target), encryption.encrypt(data, dataKey, iv));
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IngestionQueue, IngestionJob } from '../src/services/IngestionQueue';
+
+const file = { filename: 'doc.txt', size: 10 };
+
+/**
+ * Wait until a job leaves the queued and running states
+ */
+async function settled(job: IngestionJob): Promise<IngestionJob> {
+  for (let i = 0; i < 1000 && (job.status === 'queued' || job.status === 'running'); i++) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+  return job;
+}
+
+/**
+ * A promise released from the outside, for holding a job in its running state
+ */
+function gate() {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => (open = resolve));
+  return { opened, open };
+}
+
+describe('IngestionQueue', function () {
+  it('Should run no more jobs at once than its concurrency', async function () {
+    const gates = [gate(), gate()];
+    const queue = new IngestionQueue<number>(async index => {
+      await gates[index].opened;
+      return index;
+    }, { concurrency: 1 });
+
+    const first = queue.enqueue(0, file);
+    const second = queue.enqueue(1, file);
+    assert.equal(first.status, 'running');
+    assert.equal(second.status, 'queued');
+
+    gates[0].open();
+    await settled(first);
+    assert.equal(second.status, 'running');
+
+    gates[1].open();
+    await settled(second);
+    assert.deepEqual([first.result, second.result], [0, 1]);
+    assert.deepEqual(queue.listJobs().map(job => job.status), ['completed', 'completed']);
+  });
+
+  it('Should report progress stage by stage with per-chunk errors', async function () {
+    const queue = new IngestionQueue<string[]>(async (chunks, context) => {
+      context.startStage('extracting');
+      context.startStage('embedding', chunks.length);
+      chunks.forEach((chunk, index) => context.chunkDone(index, chunk ? undefined : 'Empty chunk'));
+      context.startStage('indexing', 2);
+      return { chunks: chunks.length };
+    });
+
+    const job = await settled(queue.enqueue(['a', '', 'c'], file));
+    assert.equal(job.status, 'completed');
+    assert.equal(job.stage, null);
+    assert.deepEqual(job.result, { chunks: 3 });
+    assert.equal(job.stages.extracting.state, 'completed');
+    assert.equal(job.stages.embedding.state, 'completed');
+    assert.equal(job.stages.embedding.completed, 3);
+    assert.equal(job.stages.embedding.total, 3);
+    assert.equal(job.stages.indexing.state, 'completed');
+    assert.equal(job.stages.storing.state, 'skipped');
+    assert.deepEqual(job.chunkErrors, [{ stage: 'embedding', chunkIndex: 1, error: 'Empty chunk' }]);
+  });
+
+  it('Should track progress file by file for jobs with several files', async function () {
+    const queue = new IngestionQueue<string[]>(async (files, context) => {
+      for (const filename of files) {
+        context.startFile(filename, files.length);
+        context.startStage('embedding', 1);
+        context.chunkDone(0, filename === 'b.txt' ? 'Embedding failed' : undefined);
+      }
+      return files.length;
+    });
+
+    const job = queue.enqueue(['a.txt', 'b.txt'], { filename: '2 files', size: 20 });
+    assert.deepEqual(job.files, { total: 2, completed: 1, current: 'b.txt' });
+
+    await settled(job);
+    assert.equal(job.status, 'completed');
+    assert.deepEqual(job.files, { total: 2, completed: 2, current: null });
+    assert.deepEqual(job.chunkErrors, [{ filename: 'b.txt', stage: 'embedding', chunkIndex: 0, error: 'Embedding failed' }]);
+  });
+
+  it('Should cancel queued jobs and stop running ones at a cancellation point', async function () {
+    const running = gate();
+    const queue = new IngestionQueue<string>(async (_input, context) => {
+      context.startStage('embedding', 1);
+      await running.opened;
+      context.checkCancelled();
+      context.startStage('indexing');
+      return 'indexed';
+    }, { concurrency: 1 });
+
+    const first = queue.enqueue('first', file);
+    const second = queue.enqueue('second', file);
+
+    assert.equal(queue.cancel(second.id), true);
+    assert.equal(second.status, 'cancelled');
+    assert.equal(queue.cancel(first.id), true);
+    assert.equal(first.cancelRequested, true);
+
+    running.open();
+    await settled(first);
+    assert.equal(first.status, 'cancelled');
+    assert.equal(first.stage, 'embedding');
+    assert.equal(first.stages.indexing.state, 'skipped');
+    assert.equal(first.result, undefined);
+    assert.equal(queue.cancel(first.id), false);
+  });
+
+  it('Should retry failed jobs from the start', async function () {
+    let calls = 0;
+    const queue = new IngestionQueue<string>(async (input, context) => {
+      context.startStage('extracting');
+      if (++calls === 1) {
+        throw new Error('Embedding service unavailable');
+      }
+      return input;
+    });
+
+    const job = await settled(queue.enqueue('doc', file));
+    assert.equal(job.status, 'failed');
+    assert.equal(job.error, 'Embedding service unavailable');
+    assert.equal(job.stages.extracting.state, 'failed');
+
+    assert.equal(queue.retry(job.id), true);
+    await settled(job);
+    assert.equal(job.status, 'completed');
+    assert.equal(job.attempts, 2);
+    assert.equal(job.error, undefined);
+    assert.equal(queue.retry(job.id), false);
+  });
+
+  it('Should refuse jobs once too many are waiting', async function () {
+    const running = gate();
+    const queue = new IngestionQueue<string>(async input => {
+      if (input === 'failing') {
+        throw new Error('Embedding service unavailable');
+      }
+      return running.opened;
+    }, { concurrency: 1, maxQueuedJobs: 1 });
+
+    const failed = await settled(queue.enqueue('failing', file));
+    queue.enqueue('running', file);
+    queue.enqueue('waiting', file);
+    assert.equal(queue.isFull(), true);
+    assert.throws(() => queue.enqueue('refused', file), /queue is full/);
+    assert.equal(queue.retry(failed.id), false);
+    assert.equal(failed.status, 'failed');
+
+    running.open();
+    await Promise.all(queue.listJobs().map(settled));
+    assert.equal(queue.isFull(), false);
+  });
+});
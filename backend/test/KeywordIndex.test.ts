@@ -0,0 +1,55 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeywordIndex, tokenize } from '../src/core/KeywordIndex';
+import { fuseRankings } from '../src/core/RankFusion';
+
+describe('KeywordIndex', function () {
+  let index: KeywordIndex;
+
+  beforeEach(function () {
+    index = new KeywordIndex();
+    index.add('a', 'The SKU-4411 replacement filter fits every model.');
+    index.add('b', 'Replacement parts for the model SKU-5000 are listed below.');
+    index.add('c', 'Cleaning instructions for your coffee machine.');
+  });
+
+  it('Should keep product codes whole alongside their parts', function () {
+    assert.deepEqual(tokenize('Order SKU-4411 now'), ['order', 'sku-4411', 'sku', '4411', 'now']);
+  });
+
+  it('Should rank exact code matches first', function () {
+    const results = index.search('sku-4411', 3);
+    assert.equal(results[0].docId, 'a');
+    assert.ok(results.every(r => r.docId !== 'c'));
+  });
+
+  it('Should weight rare terms above common ones', function () {
+    const results = index.search('coffee replacement', 3);
+    assert.equal(results[0].docId, 'c');
+    assert.equal(results.length, 3);
+  });
+
+  it('Should honour the accept callback and removals', function () {
+    assert.deepEqual(index.search('replacement', 3, docId => docId !== 'a').map(r => r.docId), ['b']);
+
+    index.remove('b', 'Replacement parts for the model SKU-5000 are listed below.');
+    assert.deepEqual(index.search('replacement', 3).map(r => r.docId), ['a']);
+  });
+});
+
+describe('RankFusion', function () {
+  const vector = [{ id: 'a', score: 0.9 }, { id: 'b', score: 0.85 }, { id: 'c', score: 0.1 }];
+  const keyword = [{ id: 'b', score: 12 }, { id: 'c', score: 6 }];
+
+  it('Should favour items ranked well in both lists with reciprocal rank fusion', function () {
+    const fused = fuseRankings(vector, keyword);
+    assert.equal(fused[0].id, 'b');
+    assert.equal(fused[0].vectorScore, 0.85);
+    assert.equal(fused[0].keywordScore, 12);
+  });
+
+  it('Should blend normalised scores with weighted fusion', function () {
+    assert.equal(fuseRankings(vector, keyword, { fusion: 'weighted', alpha: 1 })[0].id, 'a');
+    assert.equal(fuseRankings(vector, keyword, { fusion: 'weighted', alpha: 0 })[0].id, 'b');
+  });
+});
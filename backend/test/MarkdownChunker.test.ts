@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkMarkdown, parseMarkdownBlocks } from '../src/services/MarkdownChunker';
+import { htmlToMarkdown } from '../src/services/TextExtractors';
+
+const guide = [
+  '# Install',
+  '',
+  'Download the release for your platform.',
+  '',
+  '## Linux',
+  '',
+  '- Extract the archive',
+  '- Add it to your PATH',
+  '',
+  '### Troubleshooting',
+  '',
+  '| Error | Fix |',
+  '| --- | --- |',
+  '| EACCES | Use sudo |',
+  '',
+  '```bash',
+  'chmod +x vector-db',
+  '',
+  '# not a heading',
+  '```',
+  '',
+  '## macOS',
+  '',
+  'Use Homebrew.',
+].join('\n');
+
+describe('MarkdownChunker', function () {
+  it('Should parse headings, paragraphs, lists, tables and code fences', function () {
+    const blocks = parseMarkdownBlocks(guide);
+
+    assert.deepEqual(blocks.map(block => block.type), [
+      'heading', 'paragraph', 'heading', 'list', 'heading', 'table', 'code', 'heading', 'paragraph',
+    ]);
+    assert.equal(blocks[6].end, guide.indexOf('```\n\n## macOS') + 3);
+    assert.deepEqual(blocks.filter(block => block.type === 'heading').map(block => [block.level, block.title]), [
+      [1, 'Install'], [2, 'Linux'], [3, 'Troubleshooting'], [2, 'macOS'],
+    ]);
+  });
+
+  it('Should start a chunk at every heading and record its heading path', function () {
+    const chunks = chunkMarkdown(guide, 1000);
+
+    assert.deepEqual(chunks.map(chunk => chunk.headingPath.join(' > ')), [
+      'Install', 'Install > Linux', 'Install > Linux > Troubleshooting', 'Install > macOS',
+    ]);
+    assert.deepEqual(chunks[2].blockTypes, ['heading', 'table', 'code']);
+    for (const chunk of chunks) {
+      assert.equal(guide.slice(chunk.startIndex, chunk.endIndex), chunk.text);
+    }
+  });
+
+  it('Should never split a code fence, even one over the chunk size', function () {
+    const code = ['```js', ...Array.from({ length: 20 }, (_, i) => `const line${i} = ${i};`), '```'].join('\n');
+    const text = `# Example\n\nIntro.\n\n${code}\n\nOutro paragraph.`;
+
+    const chunks = chunkMarkdown(text, 100);
+    const withCode = chunks.filter(chunk => chunk.text.includes('```'));
+    assert.equal(withCode.length, 1);
+    assert.ok(withCode[0].text.includes(code));
+    assert.ok(chunks.every(chunk => chunk.headingPath[0] === 'Example'));
+  });
+
+  it('Should split oversized lists at item boundaries', function () {
+    const items = Array.from({ length: 10 }, (_, i) => `- Item number ${i} with some text`);
+    const chunks = chunkMarkdown(`## Steps\n\n${items.join('\n')}`, 120);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.text.split('\n').every(line => line === '## Steps' || line === '' || /^- Item number \d with some text$/.test(line)));
+      assert.deepEqual(chunk.headingPath, ['Steps']);
+    }
+  });
+
+  it('Should convert HTML structure to Markdown', function () {
+    const html = '<html><head><title>Docs</title></head><body>'
+      + '<h1>Install</h1><p>Get   the <b>release</b>.</p>'
+      + '<h2>Linux</h2><ol><li><p>Extract</p></li><li>Run</li></ol>'
+      + '<table><tr><th>Error</th><th>Fix</th></tr><tr><td>EACCES</td><td>Use sudo</td></tr></table>'
+      + '<pre><code class="language-bash">chmod +x vector-db\n\n  ./vector-db &amp;</code></pre>'
+      + '</body></html>';
+
+    assert.equal(htmlToMarkdown(html), [
+      '# Install',
+      '',
+      'Get the release.',
+      '',
+      '## Linux',
+      '',
+      '1. Extract',
+      '2. Run',
+      '',
+      '| Error | Fix |',
+      '| --- | --- |',
+      '| EACCES | Use sudo |',
+      '',
+      '```bash',
+      'chmod +x vector-db',
+      '',
+      '  ./vector-db &',
+      '```',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileFilter, validateFilter } from '../src/core/MetadataFilter';
+
+const doc = {
+  filename: 'guide.md',
+  year: 2022,
+  tags: ['install', 'linux'],
+  author: { name: 'Ada', roles: ['editor'] },
+  sections: [{ title: 'Intro' }, { title: 'Setup' }],
+  draft: false,
+};
+
+function matches(filter: Record<string, any>): boolean {
+  return compileFilter(filter)(doc);
+}
+
+describe('MetadataFilter', function () {
+  describe('Matching', function () {
+    it('Should match top-level equality', function () {
+      assert.equal(matches({ filename: 'guide.md' }), true);
+      assert.equal(matches({ filename: 'other.md' }), false);
+      assert.equal(matches({ filename: 'guide.md', draft: true }), false);
+    });
+
+    it('Should follow nested dot paths', function () {
+      assert.equal(matches({ 'author.name': 'Ada' }), true);
+      assert.equal(matches({ 'sections.title': 'Setup' }), true);
+      assert.equal(matches({ 'author.email': 'ada@example.com' }), false);
+    });
+
+    it('Should treat equality on arrays as contains', function () {
+      assert.equal(matches({ tags: 'linux' }), true);
+      assert.equal(matches({ 'author.roles': 'editor' }), true);
+      assert.equal(matches({ tags: 'windows' }), false);
+      assert.equal(matches({ tags: ['install', 'linux'] }), true);
+    });
+
+    it('Should apply range operators', function () {
+      assert.equal(matches({ year: { $gte: 2020, $lt: 2024 } }), true);
+      assert.equal(matches({ year: { $gt: 2022 } }), false);
+      assert.equal(matches({ filename: { $lte: 'h' } }), true);
+      assert.equal(matches({ filename: { $gt: 1 } }), false);
+    });
+
+    it('Should apply membership operators', function () {
+      assert.equal(matches({ year: { $in: [2021, 2022] } }), true);
+      assert.equal(matches({ tags: { $in: ['windows', 'linux'] } }), true);
+      assert.equal(matches({ tags: { $nin: ['linux'] } }), false);
+      assert.equal(matches({ year: { $ne: 2021 } }), true);
+    });
+
+    it('Should check field existence', function () {
+      assert.equal(matches({ draft: { $exists: true } }), true);
+      assert.equal(matches({ summary: { $exists: false } }), true);
+      assert.equal(matches({ 'author.name': { $exists: false } }), false);
+    });
+
+    it('Should combine logical operators', function () {
+      assert.equal(matches({ $or: [{ year: 2019 }, { tags: 'linux' }] }), true);
+      assert.equal(matches({ $and: [{ year: 2022 }, { draft: true }] }), false);
+      assert.equal(matches({ $not: { draft: true } }), true);
+      assert.equal(matches({ year: { $not: { $gt: 2020 } } }), false);
+    });
+  });
+
+  describe('Validation', function () {
+    it('Should accept valid filters', function () {
+      assert.deepEqual(validateFilter({ $or: [{ year: { $gte: 2020 } }, { tags: { $in: ['a'] } }] }), []);
+      assert.deepEqual(validateFilter({ author: { name: 'Ada' } }), []);
+    });
+
+    it('Should report invalid filters', function () {
+      assert.deepEqual(validateFilter([]), ['Filter must be an object']);
+      assert.match(validateFilter({ $xor: [] })[0], /Unknown logical operator "\$xor"/);
+      assert.match(validateFilter({ $or: [] })[0], /expects a non-empty array/);
+      assert.match(validateFilter({ year: { $gt: true } })[0], /\$gt on "year" expects a number or string/);
+      assert.match(validateFilter({ tags: { $in: 'a' } })[0], /\$in on "tags" expects an array/);
+      assert.match(validateFilter({ year: { $gte: 1, max: 2 } })[0], /mixes operators and field names/);
+      assert.match(validateFilter({ year: { $regex: 'a' } })[0], /Unknown operator "\$regex"/);
+    });
+
+    it('Should refuse to compile an invalid filter', function () {
+      assert.throws(() => compileFilter({ year: { $exists: 'yes' } }), /Invalid filter/);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { PayloadIndex } from '../src/core/PayloadIndex';
+
+function ids(set: Set<string> | null): string[] | null {
+  return set ? Array.from(set).sort() : null;
+}
+
+describe('PayloadIndex', function () {
+  let index: PayloadIndex;
+
+  beforeEach(function () {
+    index = new PayloadIndex();
+    index.add('a', { lang: 'en', year: 2021, tags: ['x', 'y'], author: { name: 'Ada' }, text: 'a'.repeat(1000) });
+    index.add('b', { lang: 'de', year: 2022, tags: ['y'], author: { name: 'Bo' } });
+    index.add('c', { lang: 'en', year: 2022, sections: [{ title: 'Intro' }] });
+  });
+
+  it('Should resolve equality and membership conditions', function () {
+    assert.deepEqual(ids(index.estimateCandidates({ lang: 'en' })), ['a', 'c']);
+    assert.deepEqual(ids(index.estimateCandidates({ tags: 'y' })), ['a', 'b']);
+    assert.deepEqual(ids(index.estimateCandidates({ 'author.name': 'Bo' })), ['b']);
+    assert.deepEqual(ids(index.estimateCandidates({ year: { $in: [2021, 2023] } })), ['a']);
+    assert.deepEqual(ids(index.estimateCandidates({ lang: 'fr' })), []);
+  });
+
+  it('Should combine clauses', function () {
+    assert.deepEqual(ids(index.estimateCandidates({ lang: 'en', year: 2022 })), ['c']);
+    assert.deepEqual(ids(index.estimateCandidates({ $or: [{ lang: 'de' }, { year: 2021 }] })), ['a', 'b']);
+    assert.deepEqual(ids(index.estimateCandidates({ lang: 'en', year: { $gt: 2000 } })), ['a', 'c']);
+  });
+
+  it('Should decline filters it cannot answer', function () {
+    assert.equal(index.estimateCandidates({ year: { $gt: 2000 } }), null);
+    assert.equal(index.estimateCandidates({ $or: [{ lang: 'de' }, { year: { $lt: 2022 } }] }), null);
+    assert.equal(index.estimateCandidates({ text: 'a' }), null);
+    assert.equal(index.estimateCandidates({ 'sections.title': 'Intro' }), null);
+  });
+
+  it('Should forget removed documents', function () {
+    index.remove('a', { lang: 'en', year: 2021, tags: ['x', 'y'], author: { name: 'Ada' } });
+    assert.deepEqual(ids(index.estimateCandidates({ lang: 'en' })), ['c']);
+    assert.deepEqual(ids(index.estimateCandidates({ tags: 'x' })), []);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../src/config';
+import { VectorEngine } from '../src/core/VectorEngine';
+import { PersistenceManager, WalOperation } from '../src/core/PersistenceManager';
+import { InMemoryStorage } from '../src/services/InMemoryStorage';
+
+// Lets the clock move on so writes before an export are not stamped with its capture time
+function tick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 2));
+}
+
+function basis(dimension: number, axis: number): number[] {
+  const vector = new Array(dimension).fill(0);
+  vector[axis] = 1;
+  return vector;
+}
+
+/**
+ * Stop an engine's timers without the final snapshot, as if the process had died
+ */
+function crash(engine: VectorEngine): void {
+  const persistence = (engine as any).persistence;
+  (engine as any).persistence = null;
+  engine.shutdown();
+  (engine as any).persistence = persistence;
+}
+
+describe('Persistence', function () {
+  const dimension = 8;
+  let dataDir: string;
+
+  beforeEach(async function () {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'persistence-'));
+    config.persistence.enabled = true;
+    config.persistence.dataDir = dataDir;
+  });
+
+  afterEach(async function () {
+    config.persistence.enabled = false;
+    await fs.remove(dataDir);
+  });
+
+  const deleteOperation = (docId: string): WalOperation => ({ op: 'delete', collectionId: 'c', docId, timestamp: 1 });
+
+  describe('Write-ahead log', function () {
+    it('Should return appended entries in order on load', function () {
+      const persistence = new PersistenceManager(dataDir);
+      persistence.append(deleteOperation('a'));
+      persistence.append(deleteOperation('b'));
+
+      const { manifest, entries } = new PersistenceManager(dataDir).load();
+      assert.equal(manifest, null);
+      assert.deepEqual(entries.map(entry => [entry.seq, entry.op === 'delete' && entry.docId]), [[1, 'a'], [2, 'b']]);
+    });
+
+    it('Should drop a torn final entry and keep appending after it', async function () {
+      const walPath = path.join(dataDir, 'wal.log');
+      new PersistenceManager(dataDir).append(deleteOperation('a'));
+      await fs.appendFile(walPath, '{"op":"delete","collec');
+
+      const persistence = new PersistenceManager(dataDir);
+      assert.equal(persistence.load().entries.length, 1);
+      persistence.append(deleteOperation('b'));
+
+      const { entries } = new PersistenceManager(dataDir).load();
+      assert.deepEqual(entries.map(entry => entry.seq), [1, 2]);
+      assert.equal((await fs.readFile(walPath, 'utf-8')).split('\n').filter(Boolean).length, 2);
+    });
+
+    it('Should refuse a log corrupted before its final entry', async function () {
+      const walPath = path.join(dataDir, 'wal.log');
+      await fs.writeFile(walPath, `not json\n${JSON.stringify({ ...deleteOperation('a'), seq: 1 })}\n`);
+
+      assert.throws(() => new PersistenceManager(dataDir).load(), /Corrupt write-ahead log entry at line 1/);
+    });
+  });
+
+  describe('Snapshots', function () {
+    it('Should truncate the log and only replay entries written after the snapshot', async function () {
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('snapshotted', dimension);
+      await engine.insertVector(collectionId, basis(dimension, 0), {});
+      engine.snapshot();
+      assert.equal(await fs.readFile(path.join(dataDir, 'wal.log'), 'utf-8'), '');
+
+      await engine.insertVector(collectionId, basis(dimension, 1), {});
+      crash(engine);
+
+      const { manifest, entries } = new PersistenceManager(dataDir).load();
+      assert.equal(manifest!.collections.length, 1);
+      assert.deepEqual(entries.map(entry => entry.op), ['insert']);
+      assert.equal(entries[0].seq, manifest!.lastSeq + 1);
+    });
+
+    it('Should fall back to the previous snapshot when a swap was interrupted', async function () {
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('swapped', dimension);
+      const id = await engine.insertVector(collectionId, basis(dimension, 2), {});
+      engine.snapshot();
+      crash(engine);
+
+      // Died after moving the current snapshot aside and before moving the new one in
+      await fs.move(path.join(dataDir, 'snapshot'), path.join(dataDir, 'snapshot.old'));
+      await fs.outputFile(path.join(dataDir, 'snapshot.tmp', 'manifest.json'), '{"half":');
+
+      const restarted = new VectorEngine();
+      assert.equal(restarted.getVector(collectionId, id)!.id, id);
+      assert.ok(await fs.pathExists(path.join(dataDir, 'snapshot')));
+      assert.ok(!(await fs.pathExists(path.join(dataDir, 'snapshot.old'))));
+      assert.ok(!(await fs.pathExists(path.join(dataDir, 'snapshot.tmp'))));
+      restarted.shutdown();
+    });
+
+    it('Should write an imported collection to a snapshot without logging its vectors', async function () {
+      const storage = new InMemoryStorage();
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('imported', dimension);
+      for (let axis = 0; axis < 4; axis++) {
+        await engine.insertVector(collectionId, basis(dimension, axis), { axis });
+      }
+      const exported = await engine.exportCollection(collectionId, storage);
+      await engine.deleteCollection(collectionId);
+      engine.snapshot();
+
+      await engine.importCollection(await storage.downloadData(exported.root));
+      assert.equal(await fs.readFile(path.join(dataDir, 'wal.log'), 'utf-8'), '');
+      crash(engine);
+
+      const restarted = new VectorEngine();
+      assert.equal(restarted.getCollection(collectionId)!.count, 4);
+      assert.equal((await restarted.searchVectors(collectionId, basis(dimension, 3), 1))[0].metadata.axis, 3);
+      restarted.shutdown();
+    });
+  });
+
+  describe('Restart', function () {
+    it('Should rebuild collections from the log alone after a crash', async function () {
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('replayed', dimension);
+      const ids: string[] = [];
+      for (let axis = 0; axis < 4; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), { axis }));
+      }
+      await engine.updateMetadata(collectionId, ids[1], { axis: 'one' });
+      await engine.upsertVector(collectionId, ids[2], basis(dimension, 5), { axis: 5 });
+      await engine.deleteVector(collectionId, ids[3]);
+      crash(engine);
+
+      const restarted = new VectorEngine();
+      assert.equal(restarted.getCollection(collectionId)!.count, 3);
+      assert.equal(restarted.getVector(collectionId, ids[1])!.metadata.axis, 'one');
+      assert.equal(restarted.getVector(collectionId, ids[3]), null);
+      assert.equal((await restarted.searchVectors(collectionId, basis(dimension, 5), 1))[0].id, ids[2]);
+      restarted.shutdown();
+    });
+
+    it('Should restore a snapshot plus the log written after it across restarts', async function () {
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('restarted', dimension);
+      const first = await engine.insertVector(collectionId, basis(dimension, 0), {});
+      engine.shutdown();
+
+      const second = new VectorEngine();
+      const added = await second.insertVector(collectionId, basis(dimension, 1), {});
+      await second.deleteVector(collectionId, first);
+      crash(second);
+
+      const third = new VectorEngine();
+      assert.equal(third.getCollection(collectionId)!.count, 1);
+      assert.equal((await third.searchVectors(collectionId, basis(dimension, 1), 1))[0].id, added);
+      // Labels restored from the snapshot are not handed out again
+      const another = await third.insertVector(collectionId, basis(dimension, 2), {});
+      assert.equal((await third.searchVectors(collectionId, basis(dimension, 2), 1))[0].id, another);
+      third.shutdown();
+    });
+
+    it('Should keep replayed deletions as old as when they were made', async function () {
+      const storage = new InMemoryStorage();
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('deletes', dimension);
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), {}));
+      }
+      await tick();
+      await engine.exportCollection(collectionId, storage);
+
+      await engine.deleteVector(collectionId, ids[0]);
+      await engine.deleteVectors(collectionId, { ids: [ids[1]] });
+      await tick();
+      const delta = await engine.exportCollection(collectionId, storage);
+      assert.equal(delta.kind, 'delta');
+      const updated = engine.getCollection(collectionId)!.updated;
+      crash(engine);
+
+      await tick();
+      const restarted = new VectorEngine();
+      assert.equal(restarted.getCollection(collectionId)!.updated, updated);
+      assert.equal((await restarted.exportCollection(collectionId, storage)).kind, 'unchanged');
+      restarted.shutdown();
+    });
+
+    it('Should restore the inserted vectors of a quantized cosine collection', async function () {
+      const vector = [1, 2, 0, 1, 0, 0, 3, 1];
+      const engine = new VectorEngine();
+      const collectionId = await engine.createCollection('quantized', dimension, '', true, false, {
+        quantization: { type: 'scalar', trainingSize: 1 },
+      });
+      await engine.upsertVector(collectionId, 'a', vector, {});
+      engine.shutdown();
+
+      const restarted = new VectorEngine();
+      const restored = restarted.getVector(collectionId, 'a')!.vector;
+      assert.ok(restored.every((value, i) => Math.abs(value - vector[i]) < 1e-5), `${restored} != ${vector}`);
+      restarted.shutdown();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScalarQuantizer, ProductQuantizer, validateQuantization, defaultSubvectors } from '../src/core/Quantization';
+import { computeDistance } from '../src/core/DistanceMetric';
+
+// Small deterministic generator so the fixtures are stable between runs
+function randomVectors(count: number, dimension: number, seed: number = 7): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 * 2 - 1;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+describe('Quantization', function () {
+  const dimension = 16;
+  const vectors = randomVectors(300, dimension);
+  const query = randomVectors(1, dimension, 99)[0];
+
+  it('Should approximate l2 distances with scalar codes', function () {
+    const quantizer = new ScalarQuantizer('l2', dimension);
+    quantizer.train(vectors);
+
+    const distance = quantizer.distanceFunction(query);
+    for (const vector of vectors.slice(0, 20)) {
+      const exact = computeDistance('l2', query, vector);
+      assert.ok(Math.abs(distance(quantizer.encode(vector)) - exact) < 0.05 * exact + 0.01);
+    }
+    assert.equal(quantizer.encode(vectors[0]).length, dimension);
+  });
+
+  it('Should approximate cosine distances with scalar codes', function () {
+    const quantizer = new ScalarQuantizer('cosine', dimension);
+    quantizer.train(vectors);
+
+    const distance = quantizer.distanceFunction(query);
+    for (const vector of vectors.slice(0, 20)) {
+      assert.ok(Math.abs(distance(quantizer.encode(vector)) - computeDistance('cosine', query, vector)) < 0.02);
+    }
+  });
+
+  it('Should keep the nearest neighbours near the top with product codes', function () {
+    const quantizer = new ProductQuantizer('l2', dimension, 4);
+    quantizer.train(vectors);
+    assert.equal(quantizer.bytesPerVector, 4);
+
+    const distance = quantizer.distanceFunction(query);
+    const codes = vectors.map(vector => quantizer.encode(vector));
+    const byExact = vectors
+      .map((vector, i) => ({ i, d: computeDistance('l2', query, vector) }))
+      .sort((a, b) => a.d - b.d);
+    const byCode = codes
+      .map((code, i) => ({ i, d: distance(code) }))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, 40)
+      .map(entry => entry.i);
+
+    assert.ok(byCode.includes(byExact[0].i));
+  });
+
+  it('Should validate options against the dimension', function () {
+    assert.deepEqual(validateQuantization({ type: 'product', subvectors: 4 }, dimension), []);
+    assert.equal(validateQuantization({ type: 'product', subvectors: 5 }, dimension).length, 1);
+    assert.equal(validateQuantization({ type: 'lossy' }, dimension).length, 1);
+    assert.equal(defaultSubvectors(768), 96);
+    assert.equal(defaultSubvectors(6), 3);
+  });
+});
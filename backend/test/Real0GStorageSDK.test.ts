@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { Real0GStorageSDK } from '../src/services/Real0GStorageSDK';
+import { EnvelopeEncryption } from '../src/services/EnvelopeEncryption';
+import { contentRoot } from '../src/services/LocalFileStorage';
+
+/**
+ * A Real0GStorageSDK whose 0G uploads and downloads go to a shared map, failing uploads on request
+ */
+function storageWithStandIn(objects: Map<string, Buffer>, failUpload: (attempt: number) => boolean) {
+  let attempts = 0;
+  const storage = new Real0GStorageSDK();
+
+  Object.assign(storage, {
+    async uploadSegment(filePath: string) {
+      const data = await fs.readFile(filePath);
+      if (failUpload(++attempts)) {
+        throw new Error('Storage node unavailable');
+      }
+      objects.set(contentRoot(data), data);
+      return { root: contentRoot(data), txHash: `0xtx${attempts}` };
+    },
+    async downloadSegment(root: string, targetPath: string) {
+      await fs.writeFile(targetPath, objects.get(root)!);
+    },
+  });
+
+  return { storage, attempts: () => attempts };
+}
+
+describe('Real0GStorageSDK', function () {
+  let tempDir: string;
+  const saved = { zg: { ...config.zg }, storage: { ...config.storage }, encryption: { ...config.encryption } };
+  const payload = randomBytes(10000);
+
+  before(async function () {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'real-0g-storage-'));
+    config.zg.privateKey = ethers.Wallet.createRandom().privateKey;
+    config.encryption.masterKey = 'correct horse battery staple';
+    config.storage.uploadPath = tempDir;
+    config.storage.chunkedUpload = { ...config.storage.chunkedUpload, segmentSize: 4096, maxRetries: 0, retryDelayMs: 1 };
+  });
+
+  after(async function () {
+    Object.assign(config.zg, saved.zg);
+    Object.assign(config.storage, saved.storage);
+    Object.assign(config.encryption, saved.encryption);
+    await fs.remove(tempDir);
+  });
+
+  it('Should resume an interrupted encrypted upload', async function () {
+    const dataKey = new EnvelopeEncryption(config.encryption.masterKey).createDataKey();
+
+    const objects = new Map<string, Buffer>();
+    const failing = storageWithStandIn(objects, attempt => attempt >= 3);
+    await assert.rejects(failing.storage.uploadData(payload, 'snapshot.bin', { dataKey }), /Storage node unavailable/);
+
+    const healthy = storageWithStandIn(objects, () => false);
+    const upload = await healthy.storage.uploadData(payload, 'snapshot.bin', { dataKey });
+    assert.equal(upload.resumedSegments, 2);
+    // The last segment and the manifest
+    assert.equal(healthy.attempts(), 2);
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'chunked')), []);
+    assert.deepEqual(await healthy.storage.downloadData(upload.root), payload);
+
+    // Files are keyed the same way, and encrypt again with the IV their first attempt saved
+    const filePath = path.join(tempDir, 'snapshot.bin');
+    await fs.writeFile(filePath, payload);
+    const failingFile = storageWithStandIn(objects, attempt => attempt >= 2);
+    await assert.rejects(failingFile.storage.uploadFile(filePath, { dataKey }), /Storage node unavailable/);
+    const fileUpload = await healthy.storage.uploadFile(filePath, { dataKey });
+    assert.equal(fileUpload.resumedSegments, 1);
+    assert.deepEqual(await healthy.storage.downloadData(fileUpload.root), payload);
+  });
+
+  it('Should remove the temporary download file whether or not the download succeeds', async function () {
+    const objects = new Map<string, Buffer>();
+    const { storage } = storageWithStandIn(objects, () => false);
+    const upload = await storage.uploadData(payload, 'snapshot.bin');
+
+    assert.deepEqual(await storage.downloadData(upload.root), payload);
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'downloads')), []);
+
+    objects.delete(upload.root);
+    await assert.rejects(storage.downloadData(upload.root), /Failed to download/);
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'downloads')), []);
+  });
+});
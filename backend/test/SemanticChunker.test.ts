@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkSemantically, percentile, splitSentences } from '../src/services/SemanticChunker';
+
+/**
+ * Embeds sentences by topic: each sentence points along the axis of the first topic word
+ * it mentions, so sentences about the same topic are identical and others orthogonal
+ */
+async function topicEmbedding(sentence: string): Promise<number[]> {
+  const topics = ['cat', 'rocket', 'bread'];
+  const topic = topics.findIndex(word => sentence.toLowerCase().includes(word));
+  return topics.map((_, i) => (i === topic ? 1 : 0.1));
+}
+
+const text = [
+  'The cat sleeps all day. A cat likes warm places. Every cat purrs.',
+  'The rocket launched at dawn. Rocket engines are loud.',
+  'Fresh bread smells good. Bread needs time to rise. Good bread has a crisp crust.',
+].join(' ');
+
+describe('SemanticChunker', function () {
+  it('Should split sentences with their offsets', function () {
+    const sentences = splitSentences('First one. Second one!\n\nA heading\nand its line');
+
+    assert.deepEqual(sentences.map(sentence => sentence.text), ['First one.', 'Second one!', 'A heading\nand its line']);
+    assert.equal(sentences[1].start, 11);
+  });
+
+  it('Should interpolate percentiles', function () {
+    assert.equal(percentile([4, 1, 3, 2], 0), 1);
+    assert.equal(percentile([4, 1, 3, 2], 50), 2.5);
+    assert.equal(percentile([4, 1, 3, 2], 100), 4);
+  });
+
+  it('Should break where adjacent sentences are least similar', async function () {
+    const result = await chunkSemantically(text, topicEmbedding, { maxChunkSize: 1000, minChunkSize: 0, breakpointPercentile: 30 });
+
+    assert.equal(result.sentenceCount, 8);
+    assert.deepEqual(result.chunks.map(chunk => chunk.sentenceCount), [3, 2, 3]);
+    assert.ok(result.chunks[1].text.startsWith('The rocket launched'));
+    assert.deepEqual(result.breakpoints.map(breakpoint => [breakpoint.afterSentence, breakpoint.reason]), [[2, 'similarity'], [4, 'similarity']]);
+    assert.ok(result.breakpoints.every(breakpoint => breakpoint.similarity < result.threshold!));
+    for (const chunk of result.chunks) {
+      assert.equal(text.slice(chunk.startIndex, chunk.endIndex), chunk.text);
+    }
+  });
+
+  it('Should respect the minimum and maximum chunk size', async function () {
+    // Too short to end at the first topic shift, so the cats and rockets stay together
+    const merged = await chunkSemantically(text, topicEmbedding, { maxChunkSize: 1000, minChunkSize: 70, breakpointPercentile: 30 });
+    assert.deepEqual(merged.chunks.map(chunk => chunk.sentenceCount), [5, 3]);
+
+    // A short last chunk joins the one before it
+    const tail = await chunkSemantically(text, topicEmbedding, { maxChunkSize: 1000, minChunkSize: 100, breakpointPercentile: 30 });
+    assert.deepEqual(tail.chunks.map(chunk => chunk.sentenceCount), [8]);
+    assert.deepEqual(tail.breakpoints, []);
+
+    const capped = await chunkSemantically(text, topicEmbedding, { maxChunkSize: 60, minChunkSize: 0, breakpointPercentile: 0 });
+    assert.ok(capped.chunks.every(chunk => chunk.text.length <= 60));
+    assert.ok(capped.breakpoints.every(breakpoint => breakpoint.reason === 'maxSize'));
+  });
+});
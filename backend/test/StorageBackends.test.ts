@@ -0,0 +1,70 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { IStorageService } from '../src/services/StorageInterface';
+import { LocalFileStorage } from '../src/services/LocalFileStorage';
+import { InMemoryStorage } from '../src/services/InMemoryStorage';
+import { createStorageService } from '../src/services/StorageFactory';
+
+const tempDir = path.join(os.tmpdir(), `storage-backends-${process.pid}`);
+
+const backends: [string, () => IStorageService][] = [
+  ['LocalFileStorage', () => new LocalFileStorage(path.join(tempDir, `local-${Date.now()}`))],
+  ['InMemoryStorage', () => new InMemoryStorage()],
+];
+
+describe('Storage backends', function () {
+  before(async function () {
+    await fs.ensureDir(tempDir);
+  });
+
+  after(async function () {
+    await fs.remove(tempDir);
+  });
+
+  for (const [name, create] of backends) {
+    describe(name, function () {
+      it('Should address content by its sha256 root', async function () {
+        const storage = create();
+        const data = Buffer.from('chunk text');
+
+        const first = await storage.uploadData(data, 'a.txt');
+        const second = await storage.uploadData('chunk text', 'b.txt');
+        assert.equal(first.root, `0x${createHash('sha256').update(data).digest('hex')}`);
+        assert.equal(second.root, first.root);
+        assert.equal(first.size, data.length);
+        assert.deepEqual(await storage.downloadData(first.root), data);
+      });
+
+      it('Should reject unknown roots', async function () {
+        const storage = create();
+        await assert.rejects(storage.downloadData(`0x${'0'.repeat(64)}`), /No data stored/);
+      });
+
+      it('Should store files under the same root as their bytes', async function () {
+        const storage = create();
+        const filePath = path.join(tempDir, `${name}.snapshot`);
+        await fs.writeFile(filePath, Buffer.alloc(200000, 7));
+
+        const upload = storage.uploadFile
+          ? await storage.uploadFile(filePath)
+          : await storage.uploadData(await fs.readFile(filePath), 'snapshot');
+        assert.equal(upload.root, (await storage.uploadData(await fs.readFile(filePath), 'snapshot')).root);
+        assert.equal((await storage.downloadData(upload.root)).length, 200000);
+      });
+    });
+  }
+
+  it('Should not resolve roots outside the local storage directory', async function () {
+    const storage = new LocalFileStorage(path.join(tempDir, 'guarded'));
+    await assert.rejects(storage.downloadData('../../etc/passwd'), /Invalid storage root/);
+  });
+
+  it('Should pick the backend named in config', function () {
+    assert.ok(createStorageService('memory') instanceof InMemoryStorage);
+    assert.throws(() => createStorageService('floppy'), /Unknown storage backend/);
+  });
+});
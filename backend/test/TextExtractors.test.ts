@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TEXT_EXTRACTORS, extractorFor } from '../src/services/TextExtractors';
+
+/**
+ * Zip archive with stored entries, enough for DOCX and EPUB containers
+ */
+function zip(files: Record<string, string>): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const data = Buffer.from(text);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(local, nameBytes, data);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, directory, end]);
+}
+
+async function extract(filename: string, content: string | Buffer): Promise<string> {
+  const extractor = extractorFor('application/octet-stream', filename);
+  assert.ok(extractor, `No extractor for ${filename}`);
+  return extractor.extract(Buffer.isBuffer(content) ? content : Buffer.from(content));
+}
+
+describe('TextExtractors', function () {
+  it('Should choose extractors by MIME type, then by extension', function () {
+    assert.equal(extractorFor('text/html; charset=utf-8', 'page.txt')?.format, 'html');
+    assert.equal(extractorFor('application/octet-stream', 'Report.DOCX')?.format, 'docx');
+    assert.equal(extractorFor('application/octet-stream', 'image.png'), undefined);
+
+    for (const extractor of TEXT_EXTRACTORS) {
+      for (const extension of extractor.extensions) {
+        assert.equal(extractorFor('', `file.${extension}`), extractor);
+      }
+    }
+  });
+
+  it('Should extract the paragraphs of a DOCX document', async function () {
+    const document = '<?xml version="1.0"?><w:document><w:body>'
+      + '<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr><w:r><w:t>Quarterly</w:t></w:r><w:r><w:t xml:space="preserve"> report</w:t></w:r></w:p>'
+      + '<w:p><w:r><w:t>Revenue</w:t><w:tab/><w:t>R&amp;D</w:t></w:r></w:p>'
+      + '<w:p/>'
+      + '</w:body></w:document>';
+    const docx = zip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': document });
+
+    assert.equal(await extract('report.docx', docx), 'Quarterly report\nRevenue\tR&D');
+    await assert.rejects(extract('empty.docx', zip({ 'other.xml': '<x/>' })), /no word\/document.xml/);
+  });
+
+  it('Should extract readable text from HTML', async function () {
+    const html = '<!DOCTYPE html><html><head><title>Ignored</title><style>p { color: red }</style></head>'
+      + '<body><h1>Vector&nbsp;search</h1><!-- comment --><script>alert("x")</script>'
+      + '<p>Fast <b>approximate</b> nearest   neighbours &amp; filters&#33;</p>'
+      + '<table><tr><th>k</th><th>recall</th></tr></table></body></html>';
+
+    assert.equal(await extract('page.html', html), 'Vector search\n\nFast approximate nearest neighbours & filters!\n\nk recall');
+  });
+
+  it('Should pair CSV values with their column headers', async function () {
+    const csv = '\uFEFFname,notes\r\nAlice,"likes ""tea"", biscuits"\r\nBob,"two\nlines"\r\n\r\n';
+
+    assert.equal(await extract('people.csv', csv), 'name: Alice, notes: likes "tea", biscuits\nname: Bob, notes: two\nlines');
+  });
+
+  it('Should extract the text nodes of an XML document', async function () {
+    const xml = '<?xml version="1.0"?><!-- feed --><feed><entry id="1"><title>First &lt;post&gt;</title>'
+      + '<body><![CDATA[Raw <b>markup</b>]]></body></entry></feed>';
+
+    assert.equal(await extract('feed.xml', xml), 'First <post>\nRaw <b>markup</b>');
+  });
+
+  it('Should extract EPUB chapters in spine order', async function () {
+    const epub = zip({
+      'mimetype': 'application/epub+zip',
+      'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf': '<package><manifest>'
+        + '<item id="c2" href="text/chapter%202.xhtml" media-type="application/xhtml+xml"/>'
+        + '<item id="c1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>'
+        + '</manifest><spine><itemref idref="c1"/><itemref idref="c2"/></spine></package>',
+      'OEBPS/text/chapter1.xhtml': '<html><body><h1>One</h1><p>It begins.</p></body></html>',
+      'OEBPS/text/chapter 2.xhtml': '<html><body><h1>Two</h1><p>It ends.</p></body></html>',
+    });
+
+    assert.equal(await extract('book.epub', epub), 'One\n\nIt begins.\n\nTwo\n\nIt ends.');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify, { FastifyInstance } from 'fastify';
+import { VectorEngine } from '../src/core/VectorEngine';
+import { InMemoryStorage } from '../src/services/InMemoryStorage';
+import { uploadRoutes } from '../src/routes/upload';
+
+const BOUNDARY = 'upload-test-boundary';
+const document = 'Alpha comes first. Beta follows it. Gamma ends the list.';
+
+/**
+ * Embedding service stub that counts its calls and can be told to fail
+ */
+function embeddingStub() {
+  const stub = {
+    calls: 0,
+    fail: false,
+    async generateEmbedding(text: string) {
+      stub.calls++;
+      if (stub.fail) {
+        throw new Error('Embedding service unavailable');
+      }
+      return { vector: [text.length, text.charCodeAt(0), 1, 1], dimension: 4, model: 'stub', tokens: 1 };
+    },
+  };
+  return stub;
+}
+
+function multipart(filename: string, text: string, uploadConfig: Record<string, any>): Buffer {
+  return Buffer.from([
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="config"\r\n\r\n${JSON.stringify(uploadConfig)}\r\n`,
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\nContent-Type: text/plain\r\n\r\n${text}\r\n`,
+    `--${BOUNDARY}--\r\n`,
+  ].join(''));
+}
+
+describe('Upload routes', function () {
+  let fastify: FastifyInstance;
+  let engine: VectorEngine;
+  let embeddings: ReturnType<typeof embeddingStub>;
+  let collectionId: string;
+
+  async function upload(uploadConfig: Record<string, any>, text: string = document): Promise<any> {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/upload',
+      payload: multipart('notes.txt', text, {
+        chunkingStrategy: { type: 'sentence', chunkSize: 20, overlap: 0 },
+        ...(collectionId ? { createNewCollection: false, existingCollectionId: collectionId } : {}),
+        ...uploadConfig,
+      }),
+      headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    });
+    assert.equal(response.statusCode, 202);
+
+    const jobId = JSON.parse(response.body).job.id;
+    for (;;) {
+      const { job } = JSON.parse((await fastify.inject({ url: `/upload/jobs/${jobId}` })).body);
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  const chunkIds = () => engine.getCollectionVectors(collectionId).map(vector => vector.id).sort();
+
+  beforeEach(async function () {
+    fastify = Fastify();
+    engine = new VectorEngine();
+    embeddings = embeddingStub();
+    await uploadRoutes(fastify, engine, embeddings as any, new InMemoryStorage());
+
+    collectionId = '';
+    const job = await upload({});
+    assert.equal(job.status, 'completed');
+    collectionId = job.result.collection.id;
+    assert.equal(engine.getCollection(collectionId)!.count, 3);
+    embeddings.calls = 0;
+  });
+
+  afterEach(async function () {
+    await fastify.close();
+  });
+
+  it('Should skip a document already in the collection', async function () {
+    const before = chunkIds();
+    const job = await upload({});
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result.deduplication.action, 'skipped');
+    assert.equal(job.result.deduplication.reusedChunks.length, 3);
+    assert.deepEqual(chunkIds(), before);
+    assert.equal(embeddings.calls, 0);
+  });
+
+  it('Should append another copy reusing the embeddings of unchanged chunks', async function () {
+    const before = chunkIds();
+    const job = await upload({ onDuplicate: 'append' });
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result.deduplication.action, 'appended');
+    assert.equal(job.result.deduplication.reusedChunks.length, 3);
+    assert.equal(embeddings.calls, 0);
+    assert.equal(engine.getCollection(collectionId)!.count, 6);
+    assert.ok(before.every(id => chunkIds().includes(id)));
+  });
+
+  it('Should replace the earlier chunks under the same document id', async function () {
+    const [original] = engine.getCollectionVectors(collectionId);
+    const deletes: string[][] = [];
+    const deleteVectors = engine.deleteVectors.bind(engine);
+    engine.deleteVectors = (id, selector, dryRun) => {
+      deletes.push(selector.ids!);
+      return deleteVectors(id, selector, dryRun);
+    };
+    // A larger chunk size keeps the last chunk as it was and changes the others
+    const job = await upload({ onDuplicate: 'replace', chunkingStrategy: { type: 'sentence', chunkSize: 40, overlap: 0 } });
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result.deduplication.action, 'replaced');
+    assert.equal(job.result.deduplication.removedVectors, 3);
+    // The old chunks go in one bulk delete
+    assert.equal(deletes.length, 1);
+    assert.equal(deletes[0].length, 3);
+    assert.equal(job.result.deduplication.reusedChunks.length, 1);
+    assert.equal(embeddings.calls, 1);
+    assert.deepEqual(chunkIds(), [...job.result.vectors.ids].sort());
+    assert.ok(engine.getCollectionVectors(collectionId).every(vector => vector.metadata.documentId === original.metadata.documentId));
+  });
+
+  it('Should keep the earlier chunks when a replacement fails to embed', async function () {
+    const before = chunkIds();
+    embeddings.fail = true;
+    const job = await upload({ onDuplicate: 'replace', chunkingStrategy: { type: 'sentence', chunkSize: 40, overlap: 0 } });
+
+    assert.equal(job.status, 'failed');
+    assert.match(job.error, /kept the previous version/);
+    assert.deepEqual(chunkIds(), before);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { VectorArena } from '../src/core/VectorArena';
+
+describe('VectorArena', function () {
+  it('Should store vectors across blocks', function () {
+    const arena = new VectorArena(3, 2);
+    const slots = [0, 1, 2, 3, 4].map(i => arena.allocate([i, i + 0.5, -i]));
+
+    assert.deepEqual(slots, [0, 1, 2, 3, 4]);
+    assert.deepEqual(arena.copy(4), [4, 4.5, -4]);
+    assert.deepEqual(Array.from(arena.get(1)), [1, 1.5, -1]);
+    assert.equal(arena.getAllocatedBytes(), 3 * 2 * 3 * 4);
+  });
+
+  it('Should reuse released slots and overwrite in place', function () {
+    const arena = new VectorArena(2, 4);
+    arena.allocate([1, 1]);
+    const slot = arena.allocate([2, 2]);
+
+    arena.release(slot);
+    assert.equal(arena.getSize(), 1);
+    assert.equal(arena.allocate([3, 3]), slot);
+
+    arena.set(slot, [4, 4]);
+    assert.deepEqual(arena.copy(slot), [4, 4]);
+  });
+
+  it('Should hand out copies that do not alias the arena', function () {
+    const arena = new VectorArena(2);
+    const slot = arena.allocate([1, 2]);
+
+    const copy = arena.copy(slot);
+    copy[0] = 99;
+    assert.deepEqual(arena.copy(slot), [1, 2]);
+    assert.throws(() => arena.set(slot, [1, 2, 3]), /does not match arena dimension/);
+    assert.throws(() => arena.get(5), /not allocated/);
+  });
+});
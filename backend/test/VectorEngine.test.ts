@@ -0,0 +1,587 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { VectorEngine } from '../src/core/VectorEngine';
+import { DistanceMetric } from '../src/core/DistanceMetric';
+import { InMemoryStorage } from '../src/services/InMemoryStorage';
+import { VectorRegistryService } from '../src/services/VectorRegistryService';
+
+// Lets the clock move on so writes before an export are not stamped with its capture time
+function tick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 2));
+}
+
+function basis(dimension: number, axis: number): number[] {
+  const vector = new Array(dimension).fill(0);
+  vector[axis] = 1;
+  return vector;
+}
+
+describe('VectorEngine', function () {
+  const dimension = 8;
+  let engine: VectorEngine;
+  let collectionId: string;
+
+  beforeEach(async function () {
+    engine = new VectorEngine();
+    collectionId = await engine.createCollection('test-collection', dimension);
+  });
+
+  describe('Label mapping', function () {
+    it('Should return the matching document for each query', async function () {
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), { axis }));
+      }
+
+      for (let axis = 0; axis < dimension; axis++) {
+        const [top] = await engine.searchVectors(collectionId, basis(dimension, axis), 1);
+        assert.equal(top.id, ids[axis]);
+        assert.equal(top.metadata.axis, axis);
+      }
+    });
+
+    it('Should return correct ids after interleaved inserts and deletes', async function () {
+      const ids = new Map<number, string>();
+      for (let axis = 0; axis < 4; axis++) {
+        ids.set(axis, await engine.insertVector(collectionId, basis(dimension, axis), { axis }));
+      }
+
+      await engine.deleteVector(collectionId, ids.get(1)!);
+      ids.set(4, await engine.insertVector(collectionId, basis(dimension, 4), { axis: 4 }));
+      await engine.deleteVector(collectionId, ids.get(0)!);
+      ids.set(5, await engine.insertVector(collectionId, basis(dimension, 5), { axis: 5 }));
+      ids.delete(0);
+      ids.delete(1);
+
+      for (const [axis, id] of ids) {
+        const [top] = await engine.searchVectors(collectionId, basis(dimension, axis), 1);
+        assert.equal(top.id, id);
+        assert.equal(top.metadata.axis, axis);
+      }
+    });
+
+    it('Should never return deleted documents', async function () {
+      const kept = await engine.insertVector(collectionId, basis(dimension, 0), {});
+      const removed = await engine.insertVector(collectionId, basis(dimension, 1), {});
+      await engine.deleteVector(collectionId, removed);
+
+      const results = await engine.searchVectors(collectionId, basis(dimension, 1), 10);
+      assert.deepEqual(results.map(r => r.id), [kept]);
+    });
+  });
+
+  describe('Capacity', function () {
+    it('Should grow the index past its initial capacity', async function () {
+      const smallId = await engine.createCollection('small-collection', dimension, '', true, false, { initialCapacity: 2 });
+      const ids: string[] = [];
+      for (let axis = 0; axis < 5; axis++) {
+        ids.push(await engine.insertVector(smallId, basis(dimension, axis), { axis }));
+      }
+
+      const collection = engine.getCollection(smallId)!;
+      assert.equal(collection.count, 5);
+      assert.equal(collection.capacity, 8);
+
+      const [top] = await engine.searchVectors(smallId, basis(dimension, 4), 1);
+      assert.equal(top.id, ids[4]);
+    });
+
+    it('Should reuse the slots of deleted points before growing', async function () {
+      const smallId = await engine.createCollection('small-collection', dimension, '', true, false, { initialCapacity: 2 });
+      const first = await engine.insertVector(smallId, basis(dimension, 0), {});
+      await engine.deleteVector(smallId, first);
+      await engine.insertVector(smallId, basis(dimension, 1), {});
+      await engine.insertVector(smallId, basis(dimension, 2), {});
+      assert.equal(engine.getCollection(smallId)!.capacity, 2);
+
+      await engine.insertVector(smallId, basis(dimension, 3), {});
+      assert.equal(engine.getCollection(smallId)!.capacity, 4);
+    });
+
+    it('Should keep the index bounded under insert and delete churn', async function () {
+      const smallId = await engine.createCollection('churned-collection', dimension, '', true, false, { initialCapacity: 4 });
+      const live: string[] = [];
+      for (let axis = 0; axis < 4; axis++) {
+        live.push(await engine.insertVector(smallId, basis(dimension, axis), { axis }));
+      }
+
+      for (let round = 0; round < 50; round++) {
+        const axis = round % dimension;
+        await engine.deleteVector(smallId, live.shift()!);
+        live.push(await engine.insertVector(smallId, basis(dimension, axis), { axis }));
+
+        const [top] = await engine.searchVectors(smallId, basis(dimension, axis), 1);
+        assert.equal(top.id, live[live.length - 1]);
+      }
+
+      assert.equal(engine.getCollection(smallId)!.capacity, 4);
+      assert.equal(engine.getCollection(smallId)!.count, 4);
+    });
+
+    it('Should return vectors as copies', async function () {
+      const id = await engine.insertVector(collectionId, basis(dimension, 2), {});
+
+      const vector = engine.getVector(collectionId, id)!.vector;
+      assert.deepEqual(vector, basis(dimension, 2));
+      vector[2] = 0;
+      assert.deepEqual(engine.getVector(collectionId, id)!.vector, basis(dimension, 2));
+    });
+
+    it('Should reject a non-positive initial capacity', async function () {
+      await assert.rejects(
+        engine.createCollection('bad-collection', dimension, '', true, false, { initialCapacity: 0 }),
+        /Initial capacity must be a positive integer/
+      );
+    });
+  });
+
+  describe('Distance metrics', function () {
+    it('Should default to cosine similarity', async function () {
+      await engine.insertVector(collectionId, basis(dimension, 0).map(v => v * 5), {});
+
+      const [top] = await engine.searchVectors(collectionId, basis(dimension, 0), 1);
+      assert.equal(engine.getCollection(collectionId)!.metric, 'cosine');
+      assert.ok(Math.abs(top.score - 1) < 1e-6);
+    });
+
+    it('Should score inner product collections by dot product', async function () {
+      const ipId = await engine.createCollection('ip-collection', 2, '', true, false, { metric: 'ip' });
+      const small = await engine.insertVector(ipId, [1, 0], {});
+      const large = await engine.insertVector(ipId, [3, 0], {});
+
+      const results = await engine.searchVectors(ipId, [2, 0], 2);
+      assert.deepEqual(results.map(r => r.id), [large, small]);
+      assert.ok(Math.abs(results[0].score - 6) < 1e-6);
+      assert.ok(Math.abs(results[1].score - 2) < 1e-6);
+    });
+
+    it('Should score L2 collections by euclidean distance', async function () {
+      const l2Id = await engine.createCollection('l2-collection', 2, '', true, false, { metric: 'l2' });
+      const near = await engine.insertVector(l2Id, [1, 1], {});
+      const far = await engine.insertVector(l2Id, [4, 5], {});
+
+      const results = await engine.searchVectors(l2Id, [1, 1], 2);
+      assert.deepEqual(results.map(r => r.id), [near, far]);
+      assert.ok(Math.abs(results[0].score - 1) < 1e-6);
+      assert.ok(Math.abs(results[1].score - 1 / 6) < 1e-6);
+    });
+
+    it('Should reject unknown metrics', async function () {
+      await assert.rejects(
+        engine.createCollection('bad-collection', dimension, '', true, false, { metric: 'hamming' as unknown as DistanceMetric }),
+        /Unsupported distance metric/
+      );
+    });
+  });
+
+  describe('Filtering', function () {
+    it('Should apply metadata filters inside search', async function () {
+      for (let axis = 0; axis < 4; axis++) {
+        await engine.insertVector(collectionId, basis(dimension, axis), { axis, meta: { even: axis % 2 === 0 } });
+      }
+
+      const results = await engine.searchVectors(collectionId, basis(dimension, 1), 4, { 'meta.even': true, axis: { $gt: 0 } });
+      assert.deepEqual(results.map(r => r.metadata.axis), [2]);
+    });
+
+    it('Should return k results for selective filters', async function () {
+      let seed = 42;
+      const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      for (let n = 0; n < 300; n++) {
+        const vector = Array.from({ length: dimension }, random);
+        await engine.insertVector(collectionId, vector, { n, tag: n % 100 === 7 ? 'rare' : 'common' });
+      }
+      const query = Array.from({ length: dimension }, random);
+
+      const byIndex = await engine.searchVectors(collectionId, query, 3, { tag: 'rare' });
+      assert.deepEqual(byIndex.map(r => r.metadata.n).sort((a, b) => a - b), [7, 107, 207]);
+
+      const byTraversal = await engine.searchVectors(collectionId, query, 3, { n: { $gte: 296 } });
+      assert.equal(byTraversal.length, 3);
+      assert.ok(byTraversal.every(r => r.metadata.n >= 296));
+
+      const scores = byTraversal.map(r => r.score);
+      assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    });
+  });
+
+  describe('Hybrid search', function () {
+    it('Should find exact terms the vectors miss', async function () {
+      await engine.insertVector(collectionId, basis(dimension, 0), { text: 'General overview of the product line' });
+      const coded = await engine.insertVector(collectionId, basis(dimension, 1), { text: 'Spare part SKU-4411 for the pump' });
+
+      const keyword = await engine.keywordSearch(collectionId, 'SKU-4411', 5);
+      assert.deepEqual(keyword.map(r => r.id), [coded]);
+
+      const hybrid = await engine.hybridSearch(collectionId, basis(dimension, 0), 'SKU-4411', 2);
+      assert.equal(hybrid.length, 2);
+      assert.equal(hybrid.find(r => r.id === coded)!.keywordScore, keyword[0].score);
+    });
+
+    it('Should drop deleted chunks from keyword results', async function () {
+      const id = await engine.insertVector(collectionId, basis(dimension, 0), { text: 'unique phrase here' });
+      await engine.deleteVector(collectionId, id);
+
+      assert.deepEqual(await engine.keywordSearch(collectionId, 'unique', 5), []);
+    });
+  });
+
+  describe('Upsert', function () {
+    it('Should create vectors under caller-supplied ids', async function () {
+      const result = await engine.upsertVector(collectionId, 'doc-1#0', basis(dimension, 0), { text: 'alpha' });
+      assert.deepEqual(result, { id: 'doc-1#0', created: true });
+
+      const [top] = await engine.searchVectors(collectionId, basis(dimension, 0), 1);
+      assert.equal(top.id, 'doc-1#0');
+    });
+
+    it('Should replace the vector in place and merge metadata', async function () {
+      await engine.upsertVector(collectionId, 'doc-1#0', basis(dimension, 0), { text: 'alpha', page: 1 });
+      await engine.upsertVector(collectionId, 'other', basis(dimension, 2), {});
+      const result = await engine.upsertVector(collectionId, 'doc-1#0', basis(dimension, 1), { page: 2 });
+
+      assert.equal(result.created, false);
+      assert.equal(engine.getCollectionVectorCount(collectionId), 2);
+      assert.equal(engine.getCollection(collectionId)!.count, 2);
+
+      const [top] = await engine.searchVectors(collectionId, basis(dimension, 1), 1);
+      assert.equal(top.id, 'doc-1#0');
+      assert.deepEqual(top.metadata, { text: 'alpha', page: 2 });
+    });
+
+    it('Should patch metadata and keep indexes in sync', async function () {
+      await engine.upsertVector(collectionId, 'a', basis(dimension, 0), { text: 'old words', lang: 'en', draft: true });
+      const updated = await engine.updateMetadata(collectionId, 'a', { text: 'new words', draft: null });
+
+      assert.deepEqual(updated!.metadata, { text: 'new words', lang: 'en' });
+      assert.deepEqual(await engine.keywordSearch(collectionId, 'old', 5), []);
+      assert.equal((await engine.keywordSearch(collectionId, 'new', 5))[0].id, 'a');
+      assert.equal((await engine.searchVectors(collectionId, basis(dimension, 0), 1, { draft: true })).length, 0);
+      assert.equal(await engine.updateMetadata(collectionId, 'missing', {}), null);
+    });
+
+    it('Should require a vector to create a new id', async function () {
+      await assert.rejects(engine.upsertVector(collectionId, 'new-id', undefined, {}), /a vector is required/);
+    });
+  });
+
+  describe('Documents', function () {
+    it('Should list documents with chunk counts', async function () {
+      await engine.insertVector(collectionId, basis(dimension, 0), { documentId: 'doc-a', filename: 'a.txt' });
+      await engine.insertVector(collectionId, basis(dimension, 1), { documentId: 'doc-a', filename: 'a.txt' });
+      await engine.insertVector(collectionId, basis(dimension, 2), { documentId: 'doc-b', filename: 'b.txt' });
+      await engine.insertVector(collectionId, basis(dimension, 3), {});
+
+      const documents = engine.listDocuments(collectionId);
+      assert.deepEqual(
+        documents.map(d => [d.documentId, d.filename, d.chunkCount]).sort(),
+        [['doc-a', 'a.txt', 2], ['doc-b', 'b.txt', 1]]
+      );
+    });
+
+    it('Should delete every chunk of a document', async function () {
+      await engine.insertVector(collectionId, basis(dimension, 0), { documentId: 'doc-a' });
+      await engine.insertVector(collectionId, basis(dimension, 1), { documentId: 'doc-a' });
+      const kept = await engine.insertVector(collectionId, basis(dimension, 2), { documentId: 'doc-b' });
+
+      assert.equal(await engine.deleteDocument(collectionId, 'doc-a'), 2);
+      assert.equal(await engine.deleteDocument(collectionId, 'doc-a'), 0);
+      assert.equal(engine.getCollection(collectionId)!.count, 1);
+
+      const results = await engine.searchVectors(collectionId, basis(dimension, 0), 5);
+      assert.deepEqual(results.map(r => r.id), [kept]);
+    });
+  });
+
+  describe('Bulk delete', function () {
+    it('Should count matches without deleting on a dry run', async function () {
+      await engine.insertVector(collectionId, basis(dimension, 0), { lang: 'en' });
+      await engine.insertVector(collectionId, basis(dimension, 1), { lang: 'en' });
+      await engine.insertVector(collectionId, basis(dimension, 2), { lang: 'de' });
+
+      const result = await engine.deleteVectors(collectionId, { filter: { lang: 'en' } }, true);
+      assert.equal(result.matched, 2);
+      assert.equal(result.deleted, 0);
+      assert.equal(engine.getCollection(collectionId)!.count, 3);
+    });
+
+    it('Should delete by filter and by id list', async function () {
+      const en = await engine.insertVector(collectionId, basis(dimension, 0), { lang: 'en' });
+      const de = await engine.insertVector(collectionId, basis(dimension, 1), { lang: 'de' });
+      const fr = await engine.insertVector(collectionId, basis(dimension, 2), { lang: 'fr' });
+
+      assert.equal((await engine.deleteVectors(collectionId, { filter: { lang: 'en' } })).deleted, 1);
+      assert.equal((await engine.deleteVectors(collectionId, { ids: [de, en, 'missing'] })).deleted, 1);
+      // Listed ids are narrowed by the filter when both are given
+      assert.equal((await engine.deleteVectors(collectionId, { ids: [fr], filter: { lang: 'de' } })).deleted, 0);
+
+      const results = await engine.searchVectors(collectionId, basis(dimension, 0), 5);
+      assert.deepEqual(results.map(r => r.id), [fr]);
+    });
+  });
+
+  describe('Quantization', function () {
+    it('Should drop raw vectors once trained and re-rank filtered search at full precision', async function () {
+      const quantizedId = await engine.createCollection('quantized', dimension, '', true, false, {
+        quantization: { type: 'product', subvectors: 4, trainingSize: 8 },
+      });
+
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(quantizedId, basis(dimension, axis), { axis, even: axis % 2 === 0 }));
+      }
+
+      const [memory] = engine.getStats().collectionMemory.filter(c => c.id === quantizedId);
+      assert.equal(memory.quantization, 'product');
+      assert.equal(memory.bytesPerVector.stored, 4);
+
+      const results = await engine.searchVectors(quantizedId, basis(dimension, 2), 2, { even: true });
+      assert.equal(results[0].id, ids[2]);
+      assert.ok(Math.abs(results[0].score - 1) < 1e-6);
+      assert.deepEqual(engine.getVector(quantizedId, ids[3])!.vector, basis(dimension, 3));
+    });
+
+    it('Should search unfiltered through the index at full precision', async function () {
+      const quantizedId = await engine.createCollection('quantized', dimension, '', true, false, {
+        quantization: { type: 'scalar', trainingSize: 2 },
+      });
+      const plainId = await engine.createCollection('plain', dimension);
+      const vectors = [[1, 2, 0, 1, 0, 0, 3, 1], [0, 1, 5, 1, 2, 0, 0, 1], [4, 0, 1, 0, 0, 2, 1, 0]];
+      for (const [i, vector] of vectors.entries()) {
+        await engine.upsertVector(quantizedId, `v${i}`, vector, {});
+        await engine.upsertVector(plainId, `v${i}`, vector, {});
+      }
+
+      const query = [1, 1, 1, 1, 1, 1, 1, 1];
+      const quantized = await engine.searchVectors(quantizedId, query, 3);
+      const plain = await engine.searchVectors(plainId, query, 3);
+      assert.deepEqual(quantized.map(r => r.id), plain.map(r => r.id));
+      quantized.forEach((result, i) => assert.ok(Math.abs(result.score - plain[i].score) < 1e-6));
+
+      // Codes replace the stored copy only; the index keeps full-precision vectors either way
+      const memory = engine.getStats().collectionMemory;
+      const [quantizedMemory, plainMemory] = [quantizedId, plainId].map(id => memory.find(c => c.id === id)!);
+      assert.equal(quantizedMemory.bytesPerVector.stored, dimension);
+      assert.equal(quantizedMemory.bytesPerVector.index, plainMemory.bytesPerVector.index);
+    });
+
+    it('Should keep the vector when only metadata changes', async function () {
+      const quantizedId = await engine.createCollection('quantized', dimension, '', true, false, {
+        quantization: { type: 'scalar', trainingSize: 1 },
+      });
+      await engine.upsertVector(quantizedId, 'a', basis(dimension, 5), { lang: 'en' });
+      await engine.updateMetadata(quantizedId, 'a', { lang: 'de' });
+
+      const [top] = await engine.searchVectors(quantizedId, basis(dimension, 5), 1, { lang: 'de' });
+      assert.equal(top.id, 'a');
+      assert.deepEqual(engine.getVector(quantizedId, 'a')!.vector, basis(dimension, 5));
+    });
+
+    it('Should read back the inserted vectors of a quantized cosine collection', async function () {
+      const quantizedId = await engine.createCollection('quantized', dimension, '', true, false, {
+        quantization: { type: 'scalar', trainingSize: 2 },
+      });
+      const assertClose = (actual: number[], expected: number[]) =>
+        assert.ok(actual.every((value, i) => Math.abs(value - expected[i]) < 1e-5), `${actual} != ${expected}`);
+
+      // Inserted before and after training, then one of them replaced
+      const before = [1, 2, 0, 1, 0, 0, 3, 1];
+      const after = [0, 5, 5, 0, 0, 0, 0, 0];
+      await engine.upsertVector(quantizedId, 'before', before, {});
+      await engine.upsertVector(quantizedId, 'other', basis(dimension, 0), {});
+      await engine.upsertVector(quantizedId, 'after', basis(dimension, 1), {});
+      await engine.upsertVector(quantizedId, 'after', after, {});
+
+      assertClose(engine.getVector(quantizedId, 'before')!.vector, before);
+      assertClose(engine.getVector(quantizedId, 'after')!.vector, after);
+      const listed = engine.getCollectionVectors(quantizedId);
+      assertClose(listed.find(doc => doc.id === 'before')!.vector, before);
+
+      const storage = new InMemoryStorage();
+      const exported = await engine.exportCollection(quantizedId, storage);
+      const target = new VectorEngine();
+      await target.importCollection(await storage.downloadData(exported.root));
+      assertClose(target.getVector(quantizedId, 'before')!.vector, before);
+    });
+  });
+
+  describe('Snapshots', function () {
+    it('Should export a collection and import it with the same results', async function () {
+      const storage = new InMemoryStorage();
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), { axis, text: `chunk ${axis}` }));
+      }
+      await engine.deleteVector(collectionId, ids[0]);
+
+      const exported = await engine.exportCollection(collectionId, storage);
+      assert.equal(exported.vectorCount, dimension - 1);
+
+      const target = new VectorEngine();
+      await assert.rejects(target.importCollection(Buffer.from('garbage')), /Not a collection snapshot/);
+
+      const imported = await target.importCollection(await storage.downloadData(exported.root));
+      assert.equal(imported.id, collectionId);
+      assert.equal(imported.count, dimension - 1);
+
+      const [top] = await target.searchVectors(collectionId, basis(dimension, 3), 1);
+      assert.equal(top.id, ids[3]);
+      assert.deepEqual(target.getVector(collectionId, ids[5])!.vector, basis(dimension, 5));
+      assert.equal((await target.keywordSearch(collectionId, 'chunk', 10)).length, dimension - 1);
+      assert.equal(target.getVector(collectionId, ids[0]), null);
+
+      // New vectors get fresh labels after the imported ones
+      const added = await target.insertVector(collectionId, basis(dimension, 0), {});
+      assert.equal((await target.searchVectors(collectionId, basis(dimension, 0), 1))[0].id, added);
+
+      await assert.rejects(target.importCollection(await storage.downloadData(exported.root)), /already exists/);
+    });
+
+    it('Should only replace empty collections when rehydrating', async function () {
+      const storage = new InMemoryStorage();
+      const id = await engine.insertVector(collectionId, basis(dimension, 1), {});
+      const exported = await engine.exportCollection(collectionId, storage);
+      const data = await storage.downloadData(exported.root);
+
+      const target = new VectorEngine();
+      const placeholderId = await target.createCollection('placeholder', dimension);
+      const imported = await target.importCollection(data, { collectionId: placeholderId, replaceEmpty: true });
+      assert.equal(imported.count, 1);
+      assert.equal(target.getVector(placeholderId, id)!.id, id);
+
+      await assert.rejects(
+        target.importCollection(data, { collectionId: placeholderId, replaceEmpty: true }),
+        /already exists/
+      );
+    });
+
+    it('Should reject snapshots with corrupted sections', async function () {
+      const storage = new InMemoryStorage();
+      await engine.insertVector(collectionId, basis(dimension, 1), {});
+      const exported = await engine.exportCollection(collectionId, storage);
+
+      const data = Buffer.from(await storage.downloadData(exported.root));
+      data[10] ^= 0xff;
+      await assert.rejects(new VectorEngine().importCollection(data), /Checksum mismatch/);
+    });
+
+    it('Should chain delta segments to the base snapshot and replay them on import', async function () {
+      const storage = new InMemoryStorage();
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), { axis }));
+      }
+      await tick();
+      await assert.rejects(engine.exportCollection(collectionId, storage, 'delta'), /no base snapshot/);
+      const base = await engine.exportCollection(collectionId, storage);
+      assert.equal(base.kind, 'base');
+
+      await engine.deleteVector(collectionId, ids[0]);
+      await engine.updateMetadata(collectionId, ids[1], { axis: 'one' });
+      await tick();
+      const delta = await engine.exportCollection(collectionId, storage);
+      assert.equal(delta.kind, 'delta');
+      assert.equal(delta.baseRoot, base.root);
+      assert.equal(delta.sequence, 1);
+      assert.deepEqual([delta.upserts, delta.deletes], [1, 1]);
+
+      const added = await engine.upsertVector(collectionId, 'added', basis(dimension, 0), { axis: 0 });
+      await tick();
+      const second = await engine.exportCollection(collectionId, storage);
+      assert.equal(second.sequence, 2);
+      assert.equal(second.upserts, 1);
+      assert.equal((await engine.exportCollection(collectionId, storage)).kind, 'unchanged');
+
+      const target = new VectorEngine();
+      const imported = await target.importFromStorage(second.root, storage);
+      assert.equal(imported.count, dimension);
+      assert.equal(target.getVector(collectionId, ids[0]), null);
+      assert.equal(target.getVector(collectionId, ids[1])!.metadata.axis, 'one');
+      assert.equal((await target.searchVectors(collectionId, basis(dimension, 0), 1))[0].id, added.id);
+      assert.deepEqual(
+        { baseRoot: imported.snapshotChain!.baseRoot, headRoot: imported.snapshotChain!.headRoot, sequence: imported.snapshotChain!.sequence },
+        { baseRoot: base.root, headRoot: second.root, sequence: 2 }
+      );
+    });
+
+    it('Should carry deletions made while the base uploads into the next delta', async function () {
+      const storage = new InMemoryStorage();
+      const ids: string[] = [];
+      for (let axis = 0; axis < dimension; axis++) {
+        ids.push(await engine.insertVector(collectionId, basis(dimension, axis), { axis }));
+      }
+      await tick();
+
+      let uploadStarted!: () => void;
+      const started = new Promise<void>(resolve => (uploadStarted = resolve));
+      let finishUpload!: () => void;
+      const finished = new Promise<void>(resolve => (finishUpload = resolve));
+      const uploadData = storage.uploadData.bind(storage);
+      storage.uploadData = async (...args) => {
+        uploadStarted();
+        await finished;
+        return uploadData(...args);
+      };
+
+      const exporting = engine.exportCollection(collectionId, storage);
+      await started;
+      await engine.deleteVector(collectionId, ids[0]);
+      finishUpload();
+      const base = await exporting;
+      assert.equal(base.kind, 'base');
+
+      await tick();
+      const delta = await engine.exportCollection(collectionId, storage);
+      assert.equal(delta.kind, 'delta');
+      assert.equal(delta.deletes, 1);
+
+      const target = new VectorEngine();
+      await target.importFromStorage(delta.root, storage);
+      assert.equal(target.getVector(collectionId, ids[0]), null);
+      assert.equal(target.getCollection(collectionId)!.count, dimension - 1);
+    });
+
+    it('Should compact into a new base when a delta would rewrite most of the collection', async function () {
+      const storage = new InMemoryStorage();
+      await engine.insertVector(collectionId, basis(dimension, 0), {});
+      await tick();
+      const base = await engine.exportCollection(collectionId, storage);
+
+      await engine.insertVector(collectionId, basis(dimension, 1), {});
+      await engine.insertVector(collectionId, basis(dimension, 2), {});
+      const compacted = await engine.exportCollection(collectionId, storage);
+      assert.equal(compacted.kind, 'base');
+      assert.notEqual(compacted.root, base.root);
+      assert.equal(engine.getCollection(collectionId)!.snapshotChain!.sequence, 0);
+    });
+  });
+
+  describe('Blockchain registration', function () {
+    it('Should keep a collection registered and retry its metric when recording it fails', async function () {
+      const calls: string[] = [];
+      let attributeFailures = 1;
+      const engine = new VectorEngine(undefined, new class extends VectorRegistryService {
+        isConfigured() { return true; }
+        async createCollection() { calls.push('create'); return '0x1'; }
+        async setCollectionAttribute(_id: string, key: string, value: string) {
+          calls.push(`attribute ${key}=${value}`);
+          if (attributeFailures-- > 0) throw new Error('nonce too low');
+          return '0x2';
+        }
+        async updateCollection() { calls.push('update'); return '0x3'; }
+      }());
+
+      const l2Id = await engine.createCollection('l2-collection', dimension, '', true, false, { metric: 'l2' });
+      assert.deepEqual(calls, ['create', 'attribute metric=l2']);
+
+      await engine.insertVector(l2Id, basis(dimension, 0), {});
+      await engine.exportCollection(l2Id, new InMemoryStorage());
+      assert.deepEqual(calls, ['create', 'attribute metric=l2', 'attribute metric=l2', 'update']);
+
+      await engine.insertVector(l2Id, basis(dimension, 1), {});
+      await tick();
+      await engine.exportCollection(l2Id, new InMemoryStorage(), 'full');
+      assert.deepEqual(calls.slice(4), ['update']);
+    });
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Node 20's test runner shares each test file's stdout with its own serialized reports and
+ * misreads output that starts with a multi-byte character (every emoji-prefixed log line)
+ * as a report, failing the whole file. Logs go to stderr instead, which it passes through as is.
+ */
+console.log = console.error;
+console.info = console.error;
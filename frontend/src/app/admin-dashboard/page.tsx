@@ -125,7 +125,8 @@ export default function AdminDashboard() {
     chunkingStrategy: {
       type: 'sentence',
       chunkSize: 1000,
-      overlap: 100
+      overlap: 100,
+      breakpointPercentile: 10
     },
     generateEmbeddings: true,
     useZeroGCompute: false,
@@ -340,11 +341,20 @@ export default function AdminDashboard() {
         }
       })
 
-      if (response.data.success) {
-        setUploadResult(response.data)
+      // The document is processed in the background; poll its job until it finishes
+      let job = response.data.job
+      while (job.status === 'queued' || job.status === 'running') {
+        await new Promise(resolve => setTimeout(resolve, 1000))
+        job = (await axios.get(`${API_BASE_URL}/upload/jobs/${job.id}`, { timeout: 10000 })).data.job
+      }
+
+      if (job.status === 'completed' && job.result?.success) {
+        setUploadResult(job.result)
         await fetchCollections() // Refresh collections
         await fetchStats() // Refresh stats
-        console.log('Upload successful:', response.data)
+        console.log('Upload successful:', job.result)
+      } else {
+        setError(`Upload ${job.status}: ${job.error || 'processing did not complete'}`)
       }
     } catch (err) {
       console.error('Upload failed:', err)
@@ -657,11 +667,11 @@ export default function AdminDashboard() {
                       <ArrowUpTrayIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                       <p className="text-lg text-white mb-2">Drop your document here</p>
                       <p className="text-sm text-white mb-4">
-                        Supports PDF, TXT, and JSON files up to 50MB
+                        Supports PDF, TXT, Markdown, JSON, DOCX, HTML, CSV, XML and EPUB files up to 50MB, or zip and tar archives of them
                       </p>
                       <input
                         type="file"
-                        accept=".pdf,.txt,.json,.md"
+                        accept=".pdf,.txt,.json,.md,.docx,.html,.htm,.csv,.xml,.epub,.zip,.tar,.gz,.tgz"
                         onChange={handleFileSelect}
                         className="hidden"
                         id="file-upload"
@@ -710,13 +720,17 @@ export default function AdminDashboard() {
                             <option value="sentence">Sentence-based</option>
                             <option value="fixed">Fixed size</option>
                             <option value="paragraph">Paragraph-based</option>
-                            <option value="semantic">Semantic (experimental)</option>
+                            <option value="semantic">Semantic</option>
+                            <option value="markdown">Markdown structure</option>
+                            <option value="html">HTML structure</option>
                           </select>
                           <p className="text-xs text-white mt-1">
                             {uploadConfig.chunkingStrategy.type === 'sentence' && 'Split at sentence boundaries with size limits'}
                             {uploadConfig.chunkingStrategy.type === 'fixed' && 'Split into fixed-size chunks with overlap'}
                             {uploadConfig.chunkingStrategy.type === 'paragraph' && 'Split at paragraph boundaries'}
-                            {uploadConfig.chunkingStrategy.type === 'semantic' && 'Group semantically similar content'}
+                            {uploadConfig.chunkingStrategy.type === 'semantic' && 'Split where the topic shifts, based on sentence embedding similarity'}
+                            {uploadConfig.chunkingStrategy.type === 'markdown' && 'Split at headings, lists, tables and code blocks, keeping heading breadcrumbs'}
+                            {uploadConfig.chunkingStrategy.type === 'html' && 'Split HTML at headings, lists, tables and code blocks, keeping heading breadcrumbs'}
                           </p>
                         </div>
 
@@ -737,7 +751,26 @@ export default function AdminDashboard() {
                           </p>
                         </div>
 
-                        {uploadConfig.chunkingStrategy.type !== 'paragraph' && (
+                        {uploadConfig.chunkingStrategy.type === 'semantic' && (
+                          <div>
+                            <label className="block text-sm font-medium text-white mb-2">
+                              Breakpoint Percentile
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              value={uploadConfig.chunkingStrategy.breakpointPercentile}
+                              onChange={(e) => updateChunkingStrategy('breakpointPercentile', parseInt(e.target.value))}
+                              className="w-full rounded-md bg-white/10 border border-white/20 px-3 py-2 text-white focus:border-indigo-400 focus:outline-none focus:ring-1 focus:ring-indigo-400"
+                            />
+                            <p className="text-xs text-white mt-1">
+                              Split where sentence similarity falls below this percentile
+                            </p>
+                          </div>
+                        )}
+
+                        {!['paragraph', 'semantic', 'markdown', 'html'].includes(uploadConfig.chunkingStrategy.type) && (
                           <div>
                             <label className="block text-sm font-medium text-white mb-2">
                               Overlap
@@ -900,19 +933,40 @@ export default function AdminDashboard() {
                           </div>
                           
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                            <div className="space-y-2">
-                              <p className="text-white">Document:</p>
-                              <p className="text-white">{uploadResult.document.filename}</p>
-                              <p className="text-white">Size: {formatBytes(uploadResult.document.originalSize)}</p>
-                              <p className="text-white">Processing time: {uploadResult.document.processingTime}ms</p>
-                            </div>
-                            
-                            <div className="space-y-2">
-                              <p className="text-white">Results:</p>
-                              <p className="text-white">{uploadResult.processing.totalChunks} chunks created</p>
-                              <p className="text-white">{uploadResult.processing.insertedVectors} vectors inserted</p>
-                              <p className="text-white">Collection: {uploadResult.collection.name}</p>
-                            </div>
+                            {uploadResult.document && uploadResult.processing ? (
+                              <>
+                                <div className="space-y-2">
+                                  <p className="text-white">Document:</p>
+                                  <p className="text-white">{uploadResult.document.filename}</p>
+                                  <p className="text-white">Size: {formatBytes(uploadResult.document.originalSize)}</p>
+                                  <p className="text-white">Processing time: {uploadResult.document.processingTime}ms</p>
+                                </div>
+
+                                <div className="space-y-2">
+                                  <p className="text-white">Results:</p>
+                                  <p className="text-white">{uploadResult.processing.totalChunks} chunks created</p>
+                                  <p className="text-white">{uploadResult.processing.insertedVectors} vectors inserted</p>
+                                  <p className="text-white">Collection: {uploadResult.collection.name}</p>
+                                </div>
+                              </>
+                            ) : (
+                              <>
+                                <div className="space-y-2">
+                                  <p className="text-white">Files:</p>
+                                  {uploadResult.files?.map((file: any) => (
+                                    <p key={file.filename} className={file.status === 'failed' ? 'text-red-400' : 'text-white'}>
+                                      {file.filename}: {file.error || file.status}
+                                    </p>
+                                  ))}
+                                </div>
+
+                                <div className="space-y-2">
+                                  <p className="text-white">Results:</p>
+                                  <p className="text-white">{uploadResult.message}</p>
+                                  <p className="text-white">Collection: {uploadResult.collection.name}</p>
+                                </div>
+                              </>
+                            )}
                           </div>
 
                           <div className="flex space-x-4">